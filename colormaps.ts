@@ -0,0 +1,145 @@
+import { ParamMode, isNonNegativeMode } from './waveField';
+
+// Color maps and value ranges of the data modes.
+//
+// The fragment shader in index.tsx looks the color up in a 256 x 1 texture
+// built by colormapTable(), at t = (value - min) / (max - min) clamped to
+// 0..1. The legend (sidebar, image export) is drawn from the same stops and
+// range, so its tick values are the ones the shader uses.
+
+export enum Colormap {
+  Standard = 0,  // per mode: red-white-blue, white-blue (from 0), hue wheel
+  Viridis = 1,
+  Cividis = 2,
+  Inferno = 3,
+  Diverging = 4, // ColorBrewer RdBu
+  PurpleOrange = 5, // ColorBrewer PuOr, colorblind-safe diverging
+  Grayscale = 6
+}
+
+export type ValueRange = [number, number];
+
+// Fixed ranges of the standard mapping, also the start of a manual range
+export const DEFAULT_RANGES: Record<ParamMode, ValueRange> = {
+  [ParamMode.Elongation]: [-1.5, 1.5],
+  [ParamMode.Velocity]: [-1.5, 1.5],
+  [ParamMode.Acceleration]: [-1.5, 1.5],
+  [ParamMode.Amplitude]: [0, 2],
+  [ParamMode.Phase]: [-Math.PI, Math.PI],
+  [ParamMode.Intensity]: [0, 4],
+  [ParamMode.Energy]: [0, 8],
+  [ParamMode.Rms]: [0, 1.5],
+  [ParamMode.WaveVector]: [0, 30],
+};
+
+// The phase wraps around, its range is always -PI..PI
+export const hasFixedRange = (mode: ParamMode) => mode === ParamMode.Phase;
+
+// Evenly spaced sRGB stops, matplotlib and ColorBrewer values
+const COLORMAP_STOPS: Record<Exclude<Colormap, Colormap.Standard>, string[]> = {
+  [Colormap.Viridis]: ['#440154', '#472d7b', '#3b528b', '#2c728e', '#21918c', '#28ae80', '#5ec962', '#addc30', '#fde725'],
+  [Colormap.Cividis]: ['#00224e', '#123570', '#3b496c', '#575d6d', '#707173', '#8a8678', '#a59c74', '#c3b369', '#fee838'],
+  [Colormap.Inferno]: ['#000004', '#1f0c48', '#550f6d', '#88226a', '#ba3655', '#e35933', '#f98e09', '#f9cb35', '#fcffa4'],
+  [Colormap.Diverging]: ['#67001f', '#b2182b', '#d6604d', '#f4a582', '#fddbc7', '#f7f7f7', '#d1e5f0', '#92c5de', '#4393c3', '#2166ac', '#053061'],
+  [Colormap.PurpleOrange]: ['#7f3b08', '#b35806', '#e08214', '#fdb863', '#fee0b6', '#f7f7f7', '#d8daeb', '#b2abd2', '#8073ac', '#542788', '#2d004b'],
+  [Colormap.Grayscale]: ['#000000', '#ffffff'],
+};
+
+const parseHex = (hex: string): [number, number, number] =>
+  [1, 3, 5].map(k => parseInt(hex.slice(k, k + 2), 16) / 255) as [number, number, number];
+
+// Standard colors at t in 0..1, as the shader had them before the maps
+function standardColor(mode: ParamMode, t: number): [number, number, number] {
+  if (mode === ParamMode.Phase) {
+    // Hue = fract(value / 2pi), value = -PI at t = 0
+    const h = (t + 0.5) % 1;
+    const channel = (n: number) => {
+      const k = (n + h * 6) % 6;
+      return 1 - Math.max(0, Math.min(k, 4 - k, 1));
+    };
+    return [channel(5), channel(3), channel(1)];
+  }
+  if (isNonNegativeMode(mode)) {
+    // smoothstep over the range, nodes in the lowest 2.5 % stay white
+    const s = t * 2 < 0.05 ? 0 : t * t * (3 - 2 * t);
+    return [1 - s, 1 - 0.6 * s, 1];
+  }
+  const s = t * 2 - 1;
+  return s > 0 ? [1 - s, 1 - s, 1] : [1, 1 + s, 1 + s];
+}
+
+/**
+ * Color (r, g, b in 0..1) of a map at t in 0..1
+ */
+export function colormapColor(colormap: Colormap, mode: ParamMode, t: number): [number, number, number] {
+  const u = Math.min(1, Math.max(0, t));
+  if (colormap === Colormap.Standard) return standardColor(mode, u);
+  const stops = COLORMAP_STOPS[colormap];
+  const x = u * (stops.length - 1);
+  const k = Math.min(stops.length - 2, Math.floor(x));
+  const a = parseHex(stops[k]);
+  const b = parseHex(stops[k + 1]);
+  const f = x - k;
+  return [0, 1, 2].map(c => a[c] + (b[c] - a[c]) * f) as [number, number, number];
+}
+
+export const cssColor = ([r, g, b]: [number, number, number]) =>
+  `rgb(${Math.round(r * 255)}, ${Math.round(g * 255)}, ${Math.round(b * 255)})`;
+
+/**
+ * RGBA lookup table of `size` entries for the shader texture
+ */
+export function colormapTable(colormap: Colormap, mode: ParamMode, size = 256): Uint8Array {
+  const table = new Uint8Array(size * 4);
+  for (let k = 0; k < size; k++) {
+    const color = colormapColor(colormap, mode, k / (size - 1));
+    table.set([...color.map(c => Math.round(c * 255)), 255], k * 4);
+  }
+  return table;
+}
+
+/**
+ * Evenly spaced stops for CSS or SVG gradients
+ */
+export function colormapStops(colormap: Colormap, mode: ParamMode, count = 17): Array<{ offset: number, color: string }> {
+  return Array.from({ length: count }, (_, k) => ({
+    offset: k / (count - 1),
+    color: cssColor(colormapColor(colormap, mode, k / (count - 1))),
+  }));
+}
+
+/**
+ * Tick values at round numbers (steps of 1, 2 or 5 times a power of ten)
+ * within the range, with their offset along the legend. The phase gets
+ * multiples of PI/2.
+ */
+export function legendTicks(mode: ParamMode, range: ValueRange, unit: string): Array<{ offset: number, label: string }> {
+  const [min, max] = range;
+  const offset = (v: number) => (v - min) / (max - min);
+  if (mode === ParamMode.Phase) {
+    return ['−π', '−π/2', '0', '+π/2', '+π'].map((label, k) => ({ offset: offset(-Math.PI + k * Math.PI / 2), label }));
+  }
+  const rough = (max - min) / 4;
+  const power = 10 ** Math.floor(Math.log10(rough));
+  const step = [1, 2, 5, 10].map(f => f * power).find(s => s >= rough) ?? 10 * power;
+  const decimals = Math.max(0, -Math.floor(Math.log10(step) + 1e-9));
+  const ticks: Array<{ offset: number, label: string }> = [];
+  for (let v = Math.ceil(min / step - 1e-9) * step; v <= max + step * 1e-9; v += step) {
+    const rounded = Math.abs(v) < step * 1e-6 ? 0 : v;
+    ticks.push({ offset: offset(rounded), label: `${rounded.toFixed(decimals).replace('-', '−')}${unit ? ` ${unit}` : ''}` });
+  }
+  return ticks;
+}
+
+/**
+ * Range that fits the values: symmetric around 0 for the signed
+ * quantities, from 0 for the others. Uses a high quantile of |value|,
+ * so the singular peaks right at the sources do not wash out the field.
+ */
+export function autoRange(mode: ParamMode, values: number[], quantile = 0.98): ValueRange {
+  if (hasFixedRange(mode)) return DEFAULT_RANGES[mode];
+  const magnitudes = values.map(Math.abs).sort((a, b) => a - b);
+  const peak = magnitudes.length ? magnitudes[Math.min(magnitudes.length - 1, Math.floor(quantile * magnitudes.length))] : 0;
+  const limit = Math.max(peak, 1e-3);
+  return isNonNegativeMode(mode) ? [0, limit] : [-limit, limit];
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import {
+  FDTD_CELL_SIZE, FDTD_COURANT, FDTD_SOURCE_RADIUS, createFdtdField, createObstacleMask, fdtdTimeStep, resetFdtdField, sampleFdtd, stepFdtd,
+} from './fdtdSolver';
+import { Falloff, MIN_SPEED, Medium, PULSE_LEAD, WaveSource, Waveform } from './waveField';
+
+const medium = (overrides: Partial<Medium> = {}): Medium => ({
+  speed: 5, falloff: Falloff.None, absorption: 0, walls: [], barriers: [], regions: [], ...overrides,
+});
+
+// Gaussian pulse at the origin, peaks PULSE_LEAD widths after t = 0
+const WIDTH = 0.2;
+const PEAK_TIME = PULSE_LEAD * WIDTH;
+const pulse: WaveSource = {
+  id: '1', x: 0, y: 0, amplitude: 1, frequency: 4, phase: 0, visible: true,
+  emission: { waveform: Waveform.Pulse, start: 0, stop: Infinity, width: WIDTH },
+};
+
+// Run the CPU solver from a calm surface up to `until`, recording the
+// elongation at some points after every step
+const run = (m: Medium, points: Array<[number, number]>, until: number, dt = fdtdTimeStep(m)) => {
+  const field = createFdtdField();
+  resetFdtdField(field, 0);
+  const mask = createObstacleMask(m);
+  const times: number[] = [];
+  const records: number[][] = points.map(() => []);
+  let maxAbs = 0;
+  while (field.time < until) {
+    stepFdtd(field, mask, [pulse], m, dt);
+    times.push(field.time);
+    points.forEach(([x, y], k) => records[k].push(sampleFdtd(field.data, m, pulse.frequency, x, y).elongation));
+    for (let i = 0; i < field.data.length; i += 4) maxAbs = Math.max(maxAbs, Math.abs(field.data[i]));
+  }
+  return { times, records, maxAbs };
+};
+
+// Time and value of the largest |u| in a record, optionally within a time window
+const strongest = (times: number[], record: number[], from = -Infinity, to = Infinity) => {
+  let best = -1;
+  record.forEach((u, i) => {
+    if (times[i] < from || times[i] > to) return;
+    if (best < 0 || Math.abs(u) > Math.abs(record[best])) best = i;
+  });
+  return { time: times[best], value: record[best] };
+};
+
+describe('fdtdTimeStep', () => {
+  it('keeps c * dt / h at the Courant number', () => {
+    expect(fdtdTimeStep(medium())).toBeCloseTo(FDTD_COURANT * FDTD_CELL_SIZE / 5, 12);
+  });
+
+  it('is limited by the fastest speed region', () => {
+    const region = { id: 'z', speed: 10, points: [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }] };
+    expect(fdtdTimeStep(medium({ regions: [region] }))).toBeCloseTo(FDTD_COURANT * FDTD_CELL_SIZE / 10, 12);
+  });
+
+  it('uses the minimum speed for a still medium', () => {
+    expect(fdtdTimeStep(medium({ speed: 0 }))).toBeCloseTo(FDTD_COURANT * FDTD_CELL_SIZE / MIN_SPEED, 12);
+  });
+
+  it('stays stable at the limit and diverges beyond the CFL bound', () => {
+    const m = medium();
+    expect(run(m, [], 4).maxAbs).toBeLessThanOrEqual(1 + 1e-6);
+    // c * dt / h = 0.8 > 1 / sqrt(2)
+    expect(run(m, [], 2, 1.6 * fdtdTimeStep(m)).maxAbs).toBeGreaterThan(1e3);
+  });
+});
+
+describe('stepFdtd', () => {
+  it('carries a pulse outwards at the wave speed in every direction', () => {
+    for (const speed of [2.5, 5]) {
+      const m = medium({ speed });
+      const { times, records } = run(m, [[6, 0], [11, 0], [0, 11]], PEAK_TIME + 11 / speed);
+      const near = strongest(times, records[0]);
+      const far = strongest(times, records[1]);
+      // From the rim of the driven disc to the point, the peak of a 2D
+      // pulse trails a little
+      expect(Math.abs(near.time - PEAK_TIME - (6 - FDTD_SOURCE_RADIUS) / speed)).toBeLessThan(0.1 * 5 / speed);
+      expect(Math.abs(far.time - PEAK_TIME - (11 - FDTD_SOURCE_RADIUS) / speed)).toBeLessThan(0.1 * 5 / speed);
+      expect(Math.abs(5 / (far.time - near.time) / speed - 1)).toBeLessThan(0.05);
+      expect(strongest(times, records[2]).time).toBeCloseTo(far.time, 6);
+    }
+  });
+
+  it('leaves the water ahead of the wavefront calm', () => {
+    const m = medium();
+    // The front of the pulse reaches r = 11 at about t = 2
+    const { times, records } = run(m, [[11, 0]], 1.5);
+    expect(Math.abs(strongest(times, records[0]).value)).toBeLessThan(1e-3);
+  });
+
+  it('reflects at a wall with and without phase jump and blocks what lies behind', () => {
+    const wall = { id: 'w', x1: 5, y1: -20, x2: 5, y2: 20, reflection: 1 };
+    // Source -> wall -> (-2, 0) is 12 m, from the rim of the disc 11 m
+    const echo = PEAK_TIME + 11 / 5;
+    for (const phaseFlip of [true, false]) {
+      const m = medium({ walls: [{ ...wall, phaseFlip }] });
+      const { times, records } = run(m, [[-2, 0], [8, 0]], echo + 0.4);
+      const direct = strongest(times, records[0], 0, 1.5);
+      const reflected = strongest(times, records[0], 1.5);
+      expect(direct.value).toBeGreaterThan(0);
+      expect(Math.abs(reflected.time - echo)).toBeLessThan(0.1);
+      expect(Math.sign(reflected.value)).toBe(phaseFlip ? -1 : 1);
+      expect(Math.abs(reflected.value)).toBeGreaterThan(0.2);
+      expect(records[1].every(u => u === 0)).toBe(true);
+    }
+  });
+});
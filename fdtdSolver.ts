@@ -0,0 +1,290 @@
+import { FALLOFF_REFERENCE_DISTANCE, FieldSample, MAX_SPEED_REGIONS, Medium, MIN_SPEED, Segment, WaveSource, barrierSolidParts, localSpeed, sourcePosition, sourceSignal } from './waveField';
+
+// Numerical wave-field backend.
+//
+// Integrates the damped 2D wave equation u_tt + 2*gamma*u_t = c^2 * lap(u)
+// with finite differences (leapfrog in time, 5-point Laplacian) on a square
+// grid centered at the origin. The GPU path in index.tsx runs the same step
+// in a fragment shader; stepFdtd() is the CPU version, used as a fallback
+// where float render targets are not available and to check the shader.
+//
+// Sources are driven discs: the cells within FDTD_SOURCE_RADIUS of a source
+// are forced to the emitted signal, e.g. s_max * sin(omega * t + delta_phi),
+// and left free while the source is silent. The waves then spread like
+// 1/sqrt(r) outside the disc, comparable to the cylindrical falloff of the
+// analytic model. Discs of moving sources follow their path, the Doppler
+// shift and Mach cones emerge from the integration. Walls and the solid
+// parts of barriers are obstacle cells, a sponge layer along the edges
+// absorbs outgoing waves. Speed regions set the local c per cell, so
+// wavefronts refract at their boundaries.
+
+export enum SolverMode {
+  Analytic = 0,
+  Numerical = 1
+}
+
+export const FDTD_GRID_SIZE = 256;  // cells per side
+export const FDTD_CELL_SIZE = 0.25; // h (m)
+export const FDTD_ORIGIN = -FDTD_GRID_SIZE * FDTD_CELL_SIZE / 2; // lower left corner (m)
+
+// Radius of the driven disc around a source (m)
+export const FDTD_SOURCE_RADIUS = FALLOFF_REFERENCE_DISTANCE;
+
+// c * dt / h, the scheme is stable below 1/sqrt(2)
+export const FDTD_COURANT = 0.5;
+// Upper bound for steps per frame, beyond that the simulation skips ahead
+export const FDTD_MAX_SUBSTEPS = 16;
+
+// Width of the absorbing layer along the edges (cells) and its strength
+export const FDTD_SPONGE_CELLS = 16;
+const SPONGE_STRENGTH = 6.0;
+
+// Obstacle kinds stored in the mask
+export enum ObstacleKind {
+  Water = 0,
+  Fixed = 1, // u = 0 (Dirichlet), reflection with phase jump PI
+  Loose = 2  // du/dn = 0 (Neumann), reflection without phase jump
+}
+
+// Field state, RGBA per cell (row-major, rows along y):
+//   r: u, g: u of the previous step, b: amplitude envelope, a: du/dt
+// Same layout as the GPU render targets, so readbacks can be sampled directly.
+export interface FdtdField {
+  data: Float32Array;
+  scratch: Float32Array;
+  time: number;
+}
+
+export const createFdtdField = (): FdtdField => ({
+  data: new Float32Array(FDTD_GRID_SIZE * FDTD_GRID_SIZE * 4),
+  scratch: new Float32Array(FDTD_GRID_SIZE * FDTD_GRID_SIZE * 4),
+  time: 0,
+});
+
+export const resetFdtdField = (field: FdtdField, time: number) => {
+  field.data.fill(0);
+  field.time = time;
+};
+
+const distanceToSegment = (x: number, y: number, s: Segment) => {
+  const dx = s.x2 - s.x1;
+  const dy = s.y2 - s.y1;
+  const len2 = dx * dx + dy * dy;
+  const f = len2 === 0 ? 0 : Math.max(0, Math.min(1, ((x - s.x1) * dx + (y - s.y1) * dy) / len2));
+  return Math.hypot(x - (s.x1 + f * dx), y - (s.y1 + f * dy));
+};
+
+/**
+ * Rasterize walls, barriers, speed regions and the sponge layer, RGBA per cell:
+ *   r: ObstacleKind, g: sponge profile in [0, 1], b: local speed c, a: unused
+ * Obstacles are made thick enough that no wave leaks through diagonal gaps.
+ */
+export function createObstacleMask(medium: Medium): Float32Array {
+  const n = FDTD_GRID_SIZE;
+  const mask = new Float32Array(n * n * 4);
+
+  for (let j = 0; j < n; j++) {
+    for (let i = 0; i < n; i++) {
+      const edge = Math.min(i, j, n - 1 - i, n - 1 - j);
+      const depth = Math.max(0, FDTD_SPONGE_CELLS - edge) / FDTD_SPONGE_CELLS;
+      mask[(j * n + i) * 4 + 1] = depth * depth;
+      mask[(j * n + i) * 4 + 2] = localSpeed(medium, FDTD_ORIGIN + (i + 0.5) * FDTD_CELL_SIZE, FDTD_ORIGIN + (j + 0.5) * FDTD_CELL_SIZE);
+    }
+  }
+
+  const obstacles: Array<{ segment: Segment, kind: ObstacleKind }> = [
+    ...medium.walls.map(w => ({ segment: w as Segment, kind: w.phaseFlip ? ObstacleKind.Fixed : ObstacleKind.Loose })),
+    ...medium.barriers.flatMap(b => barrierSolidParts(b).map(segment => ({ segment, kind: ObstacleKind.Fixed }))),
+  ];
+  const reach = FDTD_CELL_SIZE * 0.75;
+
+  for (const { segment, kind } of obstacles) {
+    const toCell = (v: number) => Math.floor((v - FDTD_ORIGIN) / FDTD_CELL_SIZE);
+    const i0 = Math.max(0, toCell(Math.min(segment.x1, segment.x2) - reach));
+    const i1 = Math.min(n - 1, toCell(Math.max(segment.x1, segment.x2) + reach));
+    const j0 = Math.max(0, toCell(Math.min(segment.y1, segment.y2) - reach));
+    const j1 = Math.min(n - 1, toCell(Math.max(segment.y1, segment.y2) + reach));
+
+    for (let j = j0; j <= j1; j++) {
+      for (let i = i0; i <= i1; i++) {
+        const cx = FDTD_ORIGIN + (i + 0.5) * FDTD_CELL_SIZE;
+        const cy = FDTD_ORIGIN + (j + 0.5) * FDTD_CELL_SIZE;
+        if (distanceToSegment(cx, cy, segment) <= reach) mask[(j * n + i) * 4] = kind;
+      }
+    }
+  }
+
+  return mask;
+}
+
+/**
+ * Largest stable time step for the medium, limited by the fastest region
+ */
+export const fdtdTimeStep = (medium: Medium) =>
+  FDTD_COURANT * FDTD_CELL_SIZE / Math.max(MIN_SPEED, medium.speed, ...medium.regions.slice(0, MAX_SPEED_REGIONS).map(r => r.speed));
+
+/**
+ * Mean frequency of the visible sources. Velocity and acceleration are
+ * divided by it (and its square), like v / omega and a / omega^2 in the
+ * analytic model.
+ */
+export function referenceFrequency(sources: WaveSource[]): number {
+  // Fundamentals only, see expandHarmonics()
+  const visible = sources.filter(s => s.visible && (s.harmonic ?? 1) === 1);
+  if (visible.length === 0) return 1;
+  return visible.reduce((sum, s) => sum + s.frequency, 0) / visible.length;
+}
+
+// Per-step factor of the amplitude envelope, peaks fade over about eight periods
+export const envelopeDecay = (dt: number, omega: number) =>
+  Math.exp(-dt * omega / (16 * Math.PI));
+
+// Damping rates gamma (1/s): absorption of the medium and the sponge layer
+export const absorptionRate = (medium: Medium) => medium.absorption * Math.max(MIN_SPEED, medium.speed);
+export const spongeRate = (medium: Medium) =>
+  SPONGE_STRENGTH * Math.max(MIN_SPEED, medium.speed) / (FDTD_SPONGE_CELLS * FDTD_CELL_SIZE);
+
+/**
+ * Advance the field by one step dt on the CPU. Mirrors the step shader in
+ * index.tsx, keep both in sync.
+ */
+export function stepFdtd(field: FdtdField, mask: Float32Array, sources: WaveSource[], medium: Medium, dt: number): void {
+  const n = FDTD_GRID_SIZE;
+  const src = field.data;
+  const dst = field.scratch;
+  const dtOverH = dt / FDTD_CELL_SIZE;
+  const gamma = absorptionRate(medium);
+  const sponge = spongeRate(medium);
+  const decay = envelopeDecay(dt, referenceFrequency(sources));
+
+  // Neighbour value as seen from a water cell with value u
+  const neighbour = (index: number, u: number) => {
+    if (index < 0) return 0;
+    const kind = mask[index * 4];
+    if (kind === ObstacleKind.Fixed) return 0;
+    if (kind === ObstacleKind.Loose) return u;
+    return src[index * 4];
+  };
+
+  for (let j = 0; j < n; j++) {
+    for (let i = 0; i < n; i++) {
+      const c = j * n + i;
+      const o = c * 4;
+      if (mask[o] !== ObstacleKind.Water) {
+        dst[o] = dst[o + 1] = dst[o + 2] = dst[o + 3] = 0;
+        continue;
+      }
+
+      const u = src[o];
+      const prev = src[o + 1];
+      const lap =
+        neighbour(i > 0 ? c - 1 : -1, u) +
+        neighbour(i < n - 1 ? c + 1 : -1, u) +
+        neighbour(j > 0 ? c - n : -1, u) +
+        neighbour(j < n - 1 ? c + n : -1, u) -
+        4 * u;
+      const damp = (gamma + sponge * mask[o + 1]) * dt;
+      const courant = mask[o + 2] * dtOverH;
+      const next = (2 * u - (1 - damp) * prev + courant * courant * lap) / (1 + damp);
+
+      dst[o] = next;
+      dst[o + 1] = u;
+      dst[o + 2] = Math.max(Math.abs(next), src[o + 2] * decay);
+      dst[o + 3] = (next - prev) / (2 * dt);
+    }
+  }
+
+  // Driven discs, overlapping sources add up
+  const t = field.time + dt;
+  const driven = new Map<number, { u: number, v: number }>();
+  const reach = Math.ceil(FDTD_SOURCE_RADIUS / FDTD_CELL_SIZE);
+  for (const source of sources) {
+    if (!source.visible) continue;
+    // Silent sources leave the water free
+    const signal = sourceSignal(source, t);
+    if (signal.envelope === 0) continue;
+    const u = source.amplitude * signal.value;
+    const v = source.amplitude * source.frequency * signal.rate;
+    const center = sourcePosition(source, t);
+    const si = Math.floor((center.x - FDTD_ORIGIN) / FDTD_CELL_SIZE);
+    const sj = Math.floor((center.y - FDTD_ORIGIN) / FDTD_CELL_SIZE);
+
+    for (let j = Math.max(0, sj - reach); j <= Math.min(n - 1, sj + reach); j++) {
+      for (let i = Math.max(0, si - reach); i <= Math.min(n - 1, si + reach); i++) {
+        const cx = FDTD_ORIGIN + (i + 0.5) * FDTD_CELL_SIZE;
+        const cy = FDTD_ORIGIN + (j + 0.5) * FDTD_CELL_SIZE;
+        const c = j * n + i;
+        if (Math.hypot(cx - center.x, cy - center.y) > FDTD_SOURCE_RADIUS || mask[c * 4] !== ObstacleKind.Water) continue;
+        const drive = driven.get(c) ?? { u: 0, v: 0 };
+        drive.u += u;
+        drive.v += v;
+        driven.set(c, drive);
+      }
+    }
+  }
+  driven.forEach((drive, c) => {
+    const o = c * 4;
+    dst[o] = drive.u;
+    dst[o + 2] = Math.max(Math.abs(drive.u), src[o + 2] * decay);
+    dst[o + 3] = drive.v;
+  });
+
+  field.data = dst;
+  field.scratch = src;
+  field.time = t;
+}
+
+/**
+ * Read the field at a point, bilinear between cell centers. Takes the
+ * RGBA field data of the CPU solver or of a GPU readback; null or points
+ * outside the grid give a flat surface. There is no phase in the numerical
+ * model, the phase mode reads 0. The time averages follow from the
+ * envelope at the reference frequency; the wave vector points along the
+ * energy flux -du/dt * grad(u) with the length omega / c.
+ */
+export function sampleFdtd(data: Float32Array | null, medium: Medium, omega: number, x: number, y: number): FieldSample {
+  const n = FDTD_GRID_SIZE;
+  const flat: FieldSample = {
+    elongation: 0, velocity: 0, acceleration: 0, amplitude: 0, phase: 0, meanSquare: 0, energy: 0, waveVectorX: 0, waveVectorY: 0,
+  };
+  if (!data) return flat;
+
+  const fx = (x - FDTD_ORIGIN) / FDTD_CELL_SIZE - 0.5;
+  const fy = (y - FDTD_ORIGIN) / FDTD_CELL_SIZE - 0.5;
+  const i0 = Math.floor(fx);
+  const j0 = Math.floor(fy);
+  if (i0 < 1 || j0 < 1 || i0 >= n - 2 || j0 >= n - 2) return flat;
+  const tx = fx - i0;
+  const ty = fy - j0;
+
+  const at = (i: number, j: number, channel: number) => data[(j * n + i) * 4 + channel];
+  const bilinear = (channel: number) =>
+    (at(i0, j0, channel) * (1 - tx) + at(i0 + 1, j0, channel) * tx) * (1 - ty) +
+    (at(i0, j0 + 1, channel) * (1 - tx) + at(i0 + 1, j0 + 1, channel) * tx) * ty;
+
+  // a = c^2 * lap(u) at the nearest cell
+  const ic = Math.round(fx);
+  const jc = Math.round(fy);
+  const lap = (at(ic - 1, jc, 0) + at(ic + 1, jc, 0) + at(ic, jc - 1, 0) + at(ic, jc + 1, 0) - 4 * at(ic, jc, 0)) /
+    (FDTD_CELL_SIZE * FDTD_CELL_SIZE);
+  const speed = localSpeed(medium, x, y);
+
+  const envelope = bilinear(2);
+  const rate = bilinear(3);
+  const fluxX = -rate * (at(ic + 1, jc, 0) - at(ic - 1, jc, 0));
+  const fluxY = -rate * (at(ic, jc + 1, 0) - at(ic, jc - 1, 0));
+  const flux = Math.hypot(fluxX, fluxY);
+  const k = flux > 1e-12 ? omega / speed / flux : 0;
+
+  return {
+    elongation: bilinear(0),
+    velocity: rate / omega,
+    acceleration: speed * speed * lap / (omega * omega),
+    amplitude: envelope,
+    phase: 0,
+    meanSquare: envelope * envelope / 2,
+    energy: omega * omega * envelope * envelope / 2,
+    waveVectorX: k * fluxX,
+    waveVectorY: k * fluxY,
+  };
+}
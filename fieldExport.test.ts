@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { ExportGrid, FieldData, fieldCsv, fieldHeightmap, fieldNpy, heightmapRange } from './fieldExport';
+import { ParamMode } from './waveField';
+
+// Values numbered through in [time][quantity][y][x] order
+const fieldData = (grid: ExportGrid, times: number[], modes: ParamMode[], value = (k: number) => k): FieldData => ({
+  grid, times, modes,
+  values: Float32Array.from({ length: times.length * modes.length * grid.nx * grid.ny }, (_, k) => value(k)),
+});
+
+const ascii = (bytes: Uint8Array) => String.fromCharCode(...bytes);
+
+// Chunks of a PNG file after the signature
+const pngChunks = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: Array<{ type: string, payload: Uint8Array, crc: number }> = [];
+  for (let at = 8; at < bytes.length;) {
+    const length = view.getUint32(at);
+    chunks.push({
+      type: ascii(bytes.subarray(at + 4, at + 8)),
+      payload: bytes.subarray(at + 8, at + 8 + length),
+      crc: view.getUint32(at + 8 + length),
+    });
+    at += 12 + length;
+  }
+  return chunks;
+};
+
+const inflate = async (bytes: Uint8Array) => {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+describe('fieldNpy', () => {
+  const grid = { x0: -1, x1: 1, y0: 0, y1: 2, nx: 3, ny: 2 };
+  const data = fieldData(grid, [0, 0.5], [ParamMode.Elongation, ParamMode.Intensity], k => k / 4 - 1);
+
+  it('writes the magic string, version 1.0 and a little-endian header length', () => {
+    const bytes = fieldNpy(data);
+    expect(Array.from(bytes.subarray(0, 8))).toEqual([0x93, 0x4e, 0x55, 0x4d, 0x50, 0x59, 1, 0]);
+    const headerLength = bytes[8] | (bytes[9] << 8);
+    expect(bytes.length).toBe(10 + headerLength + data.values.length * 4);
+  });
+
+  it('pads the header with spaces to a 64-byte boundary and ends it with a newline', () => {
+    const bytes = fieldNpy(data);
+    const headerLength = bytes[8] | (bytes[9] << 8);
+    // The dictionary alone is longer than 54 bytes, so the data starts at 128
+    expect(10 + headerLength).toBe(128);
+    const header = ascii(bytes.subarray(10, 10 + headerLength));
+    expect(header.endsWith('\n')).toBe(true);
+    expect(header.trimEnd()).toBe("{'descr': '<f4', 'fortran_order': False, 'shape': (2, 2, 2, 3), }");
+    expect(header.slice(header.trimEnd().length, -1)).toMatch(/^ +$/);
+  });
+
+  it('stores the values as little-endian float32 in [time][quantity][y][x] order', () => {
+    const bytes = fieldNpy(data);
+    const headerLength = bytes[8] | (bytes[9] << 8);
+    const view = new DataView(bytes.buffer, 10 + headerLength);
+    expect(Array.from(data.values, (_, k) => view.getFloat32(k * 4, true))).toEqual(Array.from(data.values));
+    expect(Array.from(bytes.subarray(10 + headerLength, 10 + headerLength + 4))).toEqual([0x00, 0x00, 0x80, 0xbf]);
+  });
+});
+
+describe('fieldCsv', () => {
+  it('writes t, x, y and one column per quantity', async () => {
+    const grid = { x0: -1, x1: 1, y0: 0, y1: 1, nx: 3, ny: 2 };
+    const csv = fieldCsv(fieldData(grid, [0.25], [ParamMode.Elongation, ParamMode.Phase], k => k / 3));
+    expect(csv.type).toBe('text/csv');
+    expect(await csv.text()).toBe([
+      't,x,y,elongation,phase',
+      '0.2500,-1.0000,0.0000,0.000000,2.000000',
+      '0.2500,0.0000,0.0000,0.3333333,2.333333',
+      '0.2500,1.0000,0.0000,0.6666667,2.666667',
+      '0.2500,-1.0000,1.0000,1.000000,3.000000',
+      '0.2500,0.0000,1.0000,1.333333,3.333333',
+      '0.2500,1.0000,1.0000,1.666667,3.666667',
+      '',
+    ].join('\n'));
+  });
+
+  it('joins the chunks of a large export without losing or doubling a line break', async () => {
+    // 10 100 rows and the header span two chunks, 9 999 rows and the header fill one exactly
+    for (const nx of [100, 99]) {
+      const grid = { x0: 0, x1: nx - 1, y0: 0, y1: 100, nx, ny: 101 };
+      const text = await fieldCsv(fieldData(grid, [0], [ParamMode.Elongation])).text();
+      const lines = text.split('\n');
+      expect(lines).toHaveLength(nx * 101 + 2);
+      expect(lines.pop()).toBe('');
+      expect(lines.slice(1).every((line, k) => line === `0.0000,${(k % nx).toFixed(4)},${Math.floor(k / nx).toFixed(4)},${k.toPrecision(7)}`)).toBe(true);
+    }
+  });
+});
+
+describe('fieldHeightmap', () => {
+  const grid = { x0: 0, x1: 2, y0: 0, y1: 1, nx: 3, ny: 2 };
+  const data = fieldData(grid, [0, 1], [ParamMode.Elongation, ParamMode.Amplitude], k => k % 6 - 2);
+
+  it('writes the signature, a 16-bit grayscale header and the value range', async () => {
+    const bytes = new Uint8Array(await (await fieldHeightmap(data)).arrayBuffer());
+    expect(Array.from(bytes.subarray(0, 8))).toEqual([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    const chunks = pngChunks(bytes);
+    expect(chunks.map(c => c.type)).toEqual(['IHDR', 'tEXt', 'tEXt', 'tEXt', 'tEXt', 'tEXt', 'IDAT', 'IEND']);
+    expect(Array.from(chunks[0].payload)).toEqual([0, 0, 0, 3, 0, 0, 0, 2, 16, 0, 0, 0, 0]);
+    // CRC-32 of "IEND", the same in every PNG
+    expect(chunks[7].crc).toBe(0xae426082);
+    expect(chunks.slice(1, 6).map(c => ascii(c.payload))).toEqual([
+      'quantity\0elongation', 'min\0-3', 'max\x003', 't\x000', 'extent\x000 2 0 1',
+    ]);
+  });
+
+  it('maps the value range onto 0..65535 with the largest y on top', async () => {
+    const bytes = new Uint8Array(await (await fieldHeightmap(data, 1, 1)).arrayBuffer());
+    const chunks = pngChunks(bytes);
+    expect(ascii(chunks[2].payload)).toBe('min\x000');
+    expect(ascii(chunks[3].payload)).toBe('max\x003');
+    const raw = await inflate(chunks[6].payload);
+    const view = new DataView(raw.buffer);
+    // Rows y = 1 then y = 0, each after its filter byte
+    const rows = [0, 1].map(row => [0, 1, 2].map(i => view.getUint16(row * 7 + 1 + i * 2)));
+    expect([raw[0], raw[7]]).toEqual([0, 0]);
+    // Values 1, 2, 3 on top and -2, -1, 0 below, negative ones clamped to 0
+    expect(rows).toEqual([[21845, 43690, 65535], [0, 0, 0]]);
+  });
+});
+
+describe('heightmapRange', () => {
+  it('uses the fixed phase range, 0..max without sign and a symmetric range otherwise', () => {
+    const values = Float32Array.from([-3, 1, 2]);
+    expect(heightmapRange(values, ParamMode.Phase)).toEqual([-Math.PI, Math.PI]);
+    expect(heightmapRange(values, ParamMode.Intensity)).toEqual([0, 3]);
+    expect(heightmapRange(values, ParamMode.Elongation)).toEqual([-3, 3]);
+    expect(heightmapRange(new Float32Array(4), ParamMode.Elongation)).toEqual([-1e-9, 1e-9]);
+  });
+});
@@ -0,0 +1,215 @@
+import { PARAM_MODE_NAMES } from './sceneFile';
+import { FieldSampler, ParamMode, isNonNegativeMode, paramValue } from './waveField';
+
+// Field data export for post-processing (e.g. NumPy, pandas).
+//
+// The field is sampled on a regular grid of nx x ny points spanning a
+// rectangle, at one or more times. Values are the same quantities the views
+// show: velocity and acceleration are scaled by 1/omega and 1/omega^2 like
+// FieldSample. Layout of the sampled values is [time][quantity][y][x] with
+// ascending coordinates.
+
+export enum ExportFormat {
+  Csv = 0,
+  Npy = 1,
+  Heightmap = 2 // 16-bit grayscale PNG, one time and quantity
+}
+
+export interface ExportGrid {
+  x0: number;
+  x1: number;
+  y0: number;
+  y1: number;
+  nx: number; // points per row (>= 2)
+  ny: number; // rows (>= 2)
+}
+
+export interface FieldData {
+  grid: ExportGrid;
+  times: number[];
+  modes: ParamMode[];
+  values: Float32Array;
+}
+
+// Upper limit of sampled values (times x quantities x points)
+export const MAX_EXPORT_VALUES = 16_000_000;
+
+const gridX = (grid: ExportGrid, i: number) => grid.x0 + (grid.x1 - grid.x0) * i / (grid.nx - 1);
+const gridY = (grid: ExportGrid, j: number) => grid.y0 + (grid.y1 - grid.y0) * j / (grid.ny - 1);
+
+// Rows per string when writing CSV
+const CSV_CHUNK_ROWS = 10_000;
+
+const nextTask = () => new Promise(resolve => setTimeout(resolve, 0));
+
+/**
+ * Sample the field on the grid at each time. Yields to the page between
+ * row blocks; onProgress gets the finished fraction, aborting the signal
+ * rejects with an AbortError.
+ */
+export async function sampleFieldData(
+  sampler: FieldSampler,
+  grid: ExportGrid,
+  times: number[],
+  modes: ParamMode[],
+  onProgress: (fraction: number) => void,
+  signal: AbortSignal
+): Promise<FieldData> {
+  const { nx, ny } = grid;
+  const values = new Float32Array(times.length * modes.length * nx * ny);
+  const plane = nx * ny;
+  for (let k = 0; k < times.length; k++) {
+    for (let j = 0; j < ny; j++) {
+      if (j % 32 === 0) {
+        signal.throwIfAborted();
+        onProgress((k * ny + j) / (times.length * ny));
+        await nextTask();
+      }
+      const y = gridY(grid, j);
+      for (let i = 0; i < nx; i++) {
+        const sample = sampler(gridX(grid, i), y, times[k]);
+        modes.forEach((mode, m) => {
+          values[(k * modes.length + m) * plane + j * nx + i] = paramValue(sample, mode);
+        });
+      }
+    }
+  }
+  onProgress(1);
+  return { grid, times, modes, values };
+}
+
+/**
+ * One row per time and grid point: t, x, y and a column per quantity.
+ * Rows are joined in chunks, a single string of a large export would
+ * exceed the maximum string length.
+ */
+export function fieldCsv(data: FieldData): Blob {
+  const { grid, times, modes, values } = data;
+  const plane = grid.nx * grid.ny;
+  const chunks: string[] = [];
+  let lines = [['t', 'x', 'y', ...modes.map(m => PARAM_MODE_NAMES[m])].join(',')];
+  times.forEach((t, k) => {
+    for (let j = 0; j < grid.ny; j++) {
+      const y = gridY(grid, j);
+      for (let i = 0; i < grid.nx; i++) {
+        const row = [t.toFixed(4), gridX(grid, i).toFixed(4), y.toFixed(4)];
+        modes.forEach((_, m) => row.push(values[(k * modes.length + m) * plane + j * grid.nx + i].toPrecision(7)));
+        lines.push(row.join(','));
+        if (lines.length === CSV_CHUNK_ROWS) {
+          chunks.push(lines.join('\n') + '\n');
+          lines = [];
+        }
+      }
+    }
+  });
+  if (lines.length > 0) chunks.push(lines.join('\n') + '\n');
+  return new Blob(chunks, { type: 'text/csv' });
+}
+
+/**
+ * NumPy .npy (format 1.0) of float32 values with shape
+ * (times, quantities, ny, nx)
+ */
+export function fieldNpy(data: FieldData): Uint8Array {
+  const { grid, times, modes, values } = data;
+  const shape = `(${times.length}, ${modes.length}, ${grid.ny}, ${grid.nx})`;
+  let header = `{'descr': '<f4', 'fortran_order': False, 'shape': ${shape}, }`;
+  // Magic, version and length take 10 bytes, the data starts 64-byte aligned
+  header = header.padEnd(Math.ceil((10 + header.length + 1) / 64) * 64 - 10 - 1) + '\n';
+
+  const out = new Uint8Array(10 + header.length + values.length * 4);
+  out.set([0x93, ...Array.from('NUMPY', ch => ch.charCodeAt(0)), 1, 0, header.length & 0xff, header.length >> 8]);
+  out.set(Array.from(header, ch => ch.charCodeAt(0)), 10);
+  const view = new DataView(out.buffer, 10 + header.length);
+  values.forEach((v, k) => view.setFloat32(k * 4, v, true));
+  return out;
+}
+
+/**
+ * Value range mapped to black..white in a heightmap: the fixed range of
+ * the phase, 0..max for the quantities without sign, symmetric around 0
+ * otherwise
+ */
+export function heightmapRange(values: Float32Array, mode: ParamMode): [number, number] {
+  if (mode === ParamMode.Phase) return [-Math.PI, Math.PI];
+  let peak = 0;
+  for (const v of values) peak = Math.max(peak, Math.abs(v));
+  peak = Math.max(peak, 1e-9);
+  return isNonNegativeMode(mode) ? [0, peak] : [-peak, peak];
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array) => {
+  let c = 0xffffffff;
+  for (const b of bytes) c = CRC_TABLE[(c ^ b) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+};
+
+const pngChunk = (type: string, payload: Uint8Array): Uint8Array => {
+  const out = new Uint8Array(12 + payload.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, payload.length);
+  out.set(Array.from(type, ch => ch.charCodeAt(0)), 4);
+  out.set(payload, 8);
+  view.setUint32(8 + payload.length, crc32(out.subarray(4, 8 + payload.length)));
+  return out;
+};
+
+const deflate = async (bytes: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * 16-bit grayscale PNG of one quantity at one time (index k into
+ * data.times, m into data.modes). The top row is the largest y, as seen
+ * from above. The value range is stored in tEXt chunks (min, max), pixel
+ * p maps back to min + p / 65535 * (max - min).
+ */
+export async function fieldHeightmap(data: FieldData, k = 0, m = 0): Promise<Blob> {
+  const { nx, ny } = data.grid;
+  const plane = nx * ny;
+  const offset = (k * data.modes.length + m) * plane;
+  const values = data.values.subarray(offset, offset + plane);
+  const [min, max] = heightmapRange(values, data.modes[m]);
+
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, nx);
+  headerView.setUint32(4, ny);
+  header.set([16, 0, 0, 0, 0], 8); // bit depth, grayscale, deflate, no filter, no interlace
+
+  const raw = new Uint8Array(ny * (1 + nx * 2));
+  const rawView = new DataView(raw.buffer);
+  for (let row = 0; row < ny; row++) {
+    const j = ny - 1 - row;
+    const start = row * (1 + nx * 2); // filter byte 0 precedes each row
+    for (let i = 0; i < nx; i++) {
+      const t = Math.min(1, Math.max(0, (values[j * nx + i] - min) / (max - min)));
+      rawView.setUint16(start + 1 + i * 2, Math.round(t * 65535));
+    }
+  }
+
+  const text = (key: string, value: string) => new TextEncoder().encode(`${key}\0${value}`);
+  const g = data.grid;
+  return new Blob([
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('tEXt', text('quantity', PARAM_MODE_NAMES[data.modes[m]])),
+    pngChunk('tEXt', text('min', String(min))),
+    pngChunk('tEXt', text('max', String(max))),
+    pngChunk('tEXt', text('t', String(data.times[k]))),
+    pngChunk('tEXt', text('extent', `${g.x0} ${g.x1} ${g.y0} ${g.y1}`)),
+    pngChunk('IDAT', await deflate(raw)),
+    pngChunk('IEND', new Uint8Array(0)),
+  ], { type: 'image/png' });
+}
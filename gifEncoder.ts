@@ -0,0 +1,201 @@
+// Animated GIF encoder.
+//
+// Frames are RGBA pixel buffers of a fixed size. Every frame gets its own
+// 256-color palette (median cut over a sample of its pixels), so frames
+// whose colors change, e.g. while a pulse spreads, stay faithful. The
+// animation loops forever.
+
+export interface GifEncoder {
+  addFrame: (rgba: Uint8ClampedArray) => void;
+  finish: () => Blob;
+}
+
+const PALETTE_SIZE = 256;
+
+// Pixels sampled per frame for building the palette
+const PALETTE_SAMPLES = 20000;
+
+/**
+ * Median cut: split the box with the widest channel range at its median
+ * until there are PALETTE_SIZE boxes, the palette is their mean colors
+ */
+function buildPalette(rgba: Uint8ClampedArray): Uint8Array {
+  const pixelCount = rgba.length / 4;
+  const stride = Math.max(1, Math.floor(pixelCount / PALETTE_SAMPLES));
+  const samples: number[][] = [];
+  for (let p = 0; p < pixelCount; p += stride) {
+    samples.push([rgba[p * 4], rgba[p * 4 + 1], rgba[p * 4 + 2]]);
+  }
+
+  const range = (box: number[][], c: number) => {
+    let min = 255;
+    let max = 0;
+    for (const s of box) {
+      if (s[c] < min) min = s[c];
+      if (s[c] > max) max = s[c];
+    }
+    return max - min;
+  };
+
+  const boxes = [samples];
+  while (boxes.length < PALETTE_SIZE) {
+    let best = -1;
+    let bestChannel = 0;
+    let bestRange = 0;
+    boxes.forEach((box, b) => {
+      if (box.length < 2) return;
+      for (let c = 0; c < 3; c++) {
+        const r = range(box, c);
+        if (r > bestRange) {
+          best = b;
+          bestChannel = c;
+          bestRange = r;
+        }
+      }
+    });
+    if (best < 0) break;
+    const box = boxes[best].sort((a, b) => a[bestChannel] - b[bestChannel]);
+    const mid = box.length >> 1;
+    boxes.splice(best, 1, box.slice(0, mid), box.slice(mid));
+  }
+
+  const palette = new Uint8Array(PALETTE_SIZE * 3);
+  boxes.forEach((box, b) => {
+    const sum = [0, 0, 0];
+    for (const s of box) {
+      sum[0] += s[0];
+      sum[1] += s[1];
+      sum[2] += s[2];
+    }
+    for (let c = 0; c < 3; c++) palette[b * 3 + c] = Math.round(sum[c] / Math.max(1, box.length));
+  });
+  return palette;
+}
+
+/**
+ * Palette index of every pixel, nearest color with a cache on 15-bit RGB
+ */
+function mapToPalette(rgba: Uint8ClampedArray, palette: Uint8Array): Uint8Array {
+  const cache = new Int16Array(1 << 15).fill(-1);
+  const indices = new Uint8Array(rgba.length / 4);
+  for (let p = 0; p < indices.length; p++) {
+    const r = rgba[p * 4];
+    const g = rgba[p * 4 + 1];
+    const b = rgba[p * 4 + 2];
+    const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+    let index = cache[key];
+    if (index < 0) {
+      let bestDist = Infinity;
+      for (let k = 0; k < PALETTE_SIZE; k++) {
+        const dr = r - palette[k * 3];
+        const dg = g - palette[k * 3 + 1];
+        const db = b - palette[k * 3 + 2];
+        const dist = dr * dr + dg * dg + db * db;
+        if (dist < bestDist) {
+          bestDist = dist;
+          index = k;
+        }
+      }
+      cache[key] = index;
+    }
+    indices[p] = index;
+  }
+  return indices;
+}
+
+/**
+ * LZW compression of the palette indices as GIF image data (after the
+ * minimum code size byte), split into sub-blocks of at most 255 bytes
+ */
+function lzwEncode(indices: Uint8Array, minCodeSize: number): Uint8Array {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const bytes: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let codeSize = minCodeSize + 1;
+
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      bytes.push(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  let table = new Map<number, number>();
+  let nextCode = endCode + 1;
+  emit(clearCode);
+
+  let prefix = indices[0];
+  for (let p = 1; p < indices.length; p++) {
+    const k = indices[p];
+    const key = (prefix << 8) | k;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode === 4096) {
+      emit(clearCode);
+      table = new Map();
+      nextCode = endCode + 1;
+      codeSize = minCodeSize + 1;
+    } else {
+      if (nextCode >= (1 << codeSize)) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = k;
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) bytes.push(bitBuffer & 0xff);
+
+  const blocks = new Uint8Array(bytes.length + Math.ceil(bytes.length / 255) + 1);
+  let o = 0;
+  for (let start = 0; start < bytes.length; start += 255) {
+    const size = Math.min(255, bytes.length - start);
+    blocks[o++] = size;
+    for (let k = 0; k < size; k++) blocks[o++] = bytes[start + k];
+  }
+  blocks[o] = 0;
+  return blocks;
+}
+
+/**
+ * Create an encoder for frames of width x height pixels shown for
+ * delay centiseconds each
+ */
+export function createGifEncoder(width: number, height: number, delay: number): GifEncoder {
+  const parts: Uint8Array[] = [];
+  const u16 = (v: number) => [v & 0xff, (v >> 8) & 0xff];
+
+  parts.push(new Uint8Array([
+    ...Array.from('GIF89a', ch => ch.charCodeAt(0)),
+    // Logical screen, no global color table
+    ...u16(width), ...u16(height), 0x00, 0x00, 0x00,
+    // NETSCAPE2.0 extension: loop forever
+    0x21, 0xff, 0x0b, ...Array.from('NETSCAPE2.0', ch => ch.charCodeAt(0)), 0x03, 0x01, 0x00, 0x00, 0x00,
+  ]));
+
+  const addFrame = (rgba: Uint8ClampedArray) => {
+    const palette = buildPalette(rgba);
+    const indices = mapToPalette(rgba, palette);
+    parts.push(new Uint8Array([
+      // Graphic control extension: keep the frame, no transparency
+      0x21, 0xf9, 0x04, 0x04, ...u16(delay), 0x00, 0x00,
+      // Image descriptor with a local color table of 256 entries
+      0x2c, ...u16(0), ...u16(0), ...u16(width), ...u16(height), 0x87,
+    ]));
+    parts.push(palette);
+    parts.push(new Uint8Array([8]));
+    parts.push(lzwEncode(indices, 8));
+  };
+
+  const finish = () => new Blob([...parts, new Uint8Array([0x3b])], { type: 'image/gif' });
+
+  return { addFrame, finish };
+}
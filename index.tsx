@@ -1,24 +1,60 @@
-import React, { useState, useRef, useMemo, useEffect } from 'react';
+import React, { useState, useRef, useMemo, useEffect, useCallback } from 'react';
 import { createRoot } from 'react-dom/client';
-import { Canvas, useFrame } from '@react-three/fiber';
-import { OrbitControls, PerspectiveCamera, OrthographicCamera, Text } from '@react-three/drei';
+import { Canvas, useFrame, useThree } from '@react-three/fiber';
+import { OrbitControls, PerspectiveCamera, OrthographicCamera, Text, Line, useCursor } from '@react-three/drei';
 import * as THREE from 'three';
-import { Plus, Trash2, Play, Pause, RotateCcw, Menu, ChevronLeft, Dices, RefreshCw, Gauge, Activity, Waves as WavesIcon, Box, Layers, Eye, EyeOff } from 'lucide-react';
+import { Plus, Trash2, Play, Pause, RotateCcw, Menu, ChevronLeft, ChevronRight, Dices, Rewind, StepBack, StepForward, RefreshCw, Gauge, Activity, Waves as WavesIcon, Box, Layers, Eye, EyeOff, Crosshair, Ruler, Magnet, X, Save, FolderOpen, Library, Grid3x3, Ungroup, BrickWall, SeparatorVertical, Square, Video, ImageDown, Table, LayoutGrid } from 'lucide-react';
 import { deserializeSettings, SerializedState, serializeSettings } from './protobufHelpers';
+import { CameraPose, exportScene, parseScene } from './sceneFile';
+import { SCENE_PRESETS, ScenePreset } from './presets';
+import { ExportFormat, ExportGrid, MAX_EXPORT_VALUES, fieldCsv, fieldHeightmap, fieldNpy, sampleFieldData } from './fieldExport';
+import { InterferenceLines, coherentPair, contourGridAround, interferenceHyperbolas, interferenceLines, isStationary } from './interference';
+import { Colormap, DEFAULT_RANGES, ValueRange, autoRange, colormapStops, colormapTable, hasFixedRange } from './colormaps';
+import { PARAM_MODE_LABELS, StillCaption, composeStill, legendSvg, paramLegend, tickAnchor } from './stillExport';
+import { MAX_LOOP_DURATION, RecordingFormat, RecordingLength, RecordingOptions, loopDuration, recordAnimation, slowestPeriod, supportsWebm } from './recording';
+import { ArrayLayout, SourceGroup, generateArraySources, groupSize, regenerateGroup } from './sourceArrays';
+import { Barrier, BarrierOpening, DOPPLER_MIN_DENOMINATOR, Dispersion, FALLOFF_REFERENCE_DISTANCE, Falloff, FieldSampler, GRAVITY, MAX_BARRIERS, MAX_FREQUENCY_GROUPS, MAX_HARMONICS, MAX_REGION_VERTICES, MAX_SOURCES, MAX_SPEED_REGIONS, MAX_WALLS, MIN_SPEED, Medium, MotionPath, PULSE_LEAD, ParamMode, Segment, SourceEmission, SourceMotion, SourceShape, SpeedRegion, Wall, WaveShape, WaveSource, Waveform, barrierSolidParts, barrierSources, expandHarmonics, findExtrema, isConvexPolygon, isMoving, isNonNegativeMode, paramValue, sampleField, sampleProfile, sourceElongation, sourcePosition } from './waveField';
+import { FDTD_CELL_SIZE, FDTD_GRID_SIZE, FDTD_MAX_SUBSTEPS, FDTD_ORIGIN, FDTD_SOURCE_RADIUS, ObstacleKind, SolverMode, absorptionRate, createFdtdField, createObstacleMask, envelopeDecay, fdtdTimeStep, referenceFrequency, resetFdtdField, sampleFdtd, spongeRate, stepFdtd } from './fdtdSolver';
 
 // --- Types & Constants ---
 
-interface WaveSource {
+// Controls instance behind drei's <OrbitControls makeDefault>, read back
+// from the store as state.controls
+type OrbitControlsImpl = React.ComponentRef<typeof OrbitControls>;
+
+// Measuring point on the water surface
+interface Probe {
   id: string;
   x: number;
   y: number;
-  amplitude: number; // s_max
-  frequency: number; // omega
-  phase: number;     // delta_phi
-  visible: boolean;  // toggle for active/inactive
 }
 
-const MAX_SOURCES = 10;
+// Source data is passed to the shader as a float texture with one column
+// per source (MAX_SOURCES wide) and one row per group of parameters:
+//   row 0: x, y, amplitude, frequency
+//   row 1: phase, barrier index (-1 = primary source), side, harmonic (0 = plain sine)
+//   row 2: motion path (0 = static), speed, direction, radius
+//   row 3: waveform (-1 = endless sine), start, stop, width
+//   row 4: dispersion, -, -, -
+const SOURCE_TEXTURE_ROWS = 5;
+
+// Above this many sources the cards are collapsed to one line each
+const COMPACT_SOURCE_LIST_THRESHOLD = 10;
+
+// Range of the position sliders (m), dragged sources are clamped to it
+const SOURCE_POSITION_LIMIT = 20;
+
+// Grid spacing for snapping dragged sources (m), matches the slider step
+const SNAP_GRID = 0.5;
+
+// The water plane (y=0) in world space, for dragging on the surface
+const WATER_PLANE = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0);
+
+// Time window shown in the probe charts (s)
+const PROBE_HISTORY_SECONDS = 10;
+
+// Number of samples along the cross-section line
+const SECTION_SAMPLES = 240;
 
 // Default values
 const DEFAULT_SOURCE_PARAMS = {
@@ -27,15 +63,6 @@ const DEFAULT_SOURCE_PARAMS = {
   phase: 0.0,
 };
 
-// Data/Parameter Modes
-enum ParamMode {
-  Elongation = 0,
-  Velocity = 1,
-  Acceleration = 2,
-  Amplitude = 3, // Envelope
-  Phase = 4      // Mean Pairwise Phase Difference
-}
-
 export interface AppState {
   sources: Array<{
     id: string;
@@ -45,8 +72,22 @@ export interface AppState {
     frequency: number;
     phase: number;
     visible: boolean;
+    groupId?: string;
+    motion?: SourceMotion;
+    emission?: SourceEmission;
+    shape?: SourceShape;
+    dispersion?: Dispersion;
   }>;
+  groups: SourceGroup[];
+  probes: Probe[];
+  section: Segment | null;
+  walls: Wall[];
+  barriers: Barrier[];
+  regions: SpeedRegion[];
+  solver: SolverMode;
   globalSpeed: number;
+  falloff: Falloff;
+  absorption: number;
   appMode: AppMode;
   paramMode: ParamMode;
 }
@@ -58,8 +99,26 @@ enum AppMode {
   Params2D = 2  // Data Color, 2D Flat
 }
 
+// Pointer tools for the canvas
+enum Tool {
+  Orbit = 0, // Camera controls only
+  Probe = 1, // Click on the surface drops a probe
+  Section = 2, // Drag on the surface draws the cross-section line
+  Wall = 3, // Drag on the surface draws a new wall
+  Barrier = 4, // Drag on the surface draws a new barrier with slits
+  Region = 5 // Drag on the surface draws a rectangular speed region
+}
+
+// Per-source view: the simulated field leaves sources out, the arrows and
+// cards keep showing all of them
+enum Isolation {
+  Off = 0,
+  Only = 1,   // field of the isolated source alone
+  Without = 2 // full superposition minus the isolated source
+}
+
 // --- URL state (base64) helpers ---
-const SETTINGS_VERSION = 0x01;
+// Versioning of the binary payload is handled by protobufHelpers.ts
 
 const base64EncodeBytes = (bytes: Uint8Array): string => {
   let binary = '';
@@ -96,35 +155,23 @@ const deconvertState = (state: SerializedState): AppState => {
 
 const encodeState = (obj: AppState) => {
   try {
-    const serialized = serializeSettings(convertState(obj));
-    // Prepend version byte
-    const withVersion = new Uint8Array(serialized.length + 1);
-    withVersion[0] = SETTINGS_VERSION;
-    withVersion.set(serialized, 1);
-    return base64EncodeBytes(withVersion);
+    return base64EncodeBytes(serializeSettings(convertState(obj)));
   } catch (e) {
     return '';
   }
 };
 
-const decodeState = (b64: string): AppState | null => {
+const decodeState = (b64: string): { ok: true, state: AppState } | { ok: false, error: string } => {
+  let bytes: Uint8Array;
   try {
-    const bytes = base64DecodeBytes(b64);
-    if (bytes.length < 1) return null;
-    
-    const version = bytes[0];
-    if (version !== SETTINGS_VERSION) {
-      console.warn('[state] unsupported version:', version);
-      return null;
-    }
-    
-    const payload = bytes.slice(1);
-    const deserialized = deserializeSettings(payload);
-    if (!deserialized) return null;
-    return deconvertState(deserialized);
+    bytes = base64DecodeBytes(b64);
   } catch (e) {
-    return null;
+    return { ok: false, error: 'invalid base64' };
   }
+
+  const result = deserializeSettings(bytes);
+  if (result.ok === false) return result;
+  return { ok: true, state: deconvertState(result.state) };
 };
 
 // --- Shader Helper for Environment ---
@@ -159,6 +206,55 @@ vec3 getSkyColor(vec3 dir) {
 `;
 
 // --- Shaders ---
+// The superposition in vertexShader mirrors sampleField() in waveField.ts,
+// the numerical step in fdtdStepShader mirrors stepFdtd() in fdtdSolver.ts,
+// keep both in sync.
+
+// Path of a moving source, shared by the field and the FDTD step shader,
+// see sourcePosition() and sourceVelocity() in waveField.ts
+const sourceMotionChunk = `
+// motion: path (0 static, 1 linear, 2 circular), speed, direction, radius
+vec2 motionPosition(vec2 origin, vec4 motion, float t) {
+  if (motion.x == ${MotionPath.Linear}.0) return origin + motion.y * t * vec2(cos(motion.z), sin(motion.z));
+  if (motion.x == ${MotionPath.Circular}.0) {
+    float angle = motion.z + motion.y / max(motion.w, 1e-3) * t;
+    return origin + motion.w * vec2(cos(angle), sin(angle));
+  }
+  return origin;
+}
+
+vec2 motionVelocity(vec4 motion, float t) {
+  if (motion.x == ${MotionPath.Linear}.0) return motion.y * vec2(cos(motion.z), sin(motion.z));
+  if (motion.x == ${MotionPath.Circular}.0) {
+    float angle = motion.z + motion.y / max(motion.w, 1e-3) * t;
+    return motion.y * vec2(-sin(angle), cos(angle));
+  }
+  return vec2(0.0);
+}
+`;
+
+// Signal of a source at emission time tau, see sourceSignal() in waveField.ts.
+// Returns value, rate, curvature and envelope.
+const sourceSignalChunk = `
+// emission: waveform (-1 endless sine), start, stop, width
+vec4 sourceSignal(vec4 emission, float freq, float theta, float phaseShift, float tau) {
+  vec4 sine = vec4(sin(theta), cos(theta), -sin(theta), 1.0);
+  if (emission.x < 0.0) return sine;
+  if (tau < emission.y) return vec4(0.0);
+  if (emission.x == ${Waveform.Sine}.0) return tau > emission.z ? vec4(0.0) : sine;
+
+  float sigma = max(emission.w, 1e-3);
+  float x = (tau - emission.y) / sigma - ${PULSE_LEAD.toFixed(1)};
+  if (x > ${PULSE_LEAD.toFixed(1)}) return vec4(0.0);
+  float g = exp(-x * x);
+  float dg = -2.0 * x / sigma * g;
+  float ddg = (4.0 * x * x - 2.0) / (sigma * sigma) * g;
+  if (emission.x == ${Waveform.Pulse}.0) {
+    return vec4(cos(phaseShift) * vec3(g, dg / freq, ddg / (freq * freq)), g);
+  }
+  return vec4(g * sine.x, dg / freq * sine.x + g * sine.y, ddg / (freq * freq) * sine.x + 2.0 * dg / freq * sine.y - g * sine.x, g);
+}
+`;
 
 const vertexShader = `
   varying vec2 vUv;
@@ -170,12 +266,167 @@ const vertexShader = `
 
   uniform float uTime;
   uniform float uGlobalSpeed;
+  uniform int uFalloff;      // 0=none, 1=1/sqrt(r), 2=1/r
+  uniform float uAbsorption; // alpha (1/m)
   uniform int uSourceCount;
   uniform int uParamMode; 
   uniform int uRenderStyle; // 0=Params3D, 1=Water, 2=Params2D
+  uniform int uSolver;      // 0=analytic, 1=numerical
   
-  uniform vec2 uSourcePos[${MAX_SOURCES}];
-  uniform vec3 uSourceParams[${MAX_SOURCES}]; // x: amp, y: freq, z: phase
+  uniform sampler2D uSourceData; // see SOURCE_TEXTURE_ROWS
+
+  // Numerical field (RGBA: u, u_prev, envelope, du/dt), see FdtdField
+  uniform sampler2D uFieldState;
+  uniform float uReferenceFrequency;
+
+  // Bilinear read between cell centers, flat outside the grid
+  vec4 fieldAt(vec2 pos) {
+    vec2 f = (pos - ${FDTD_ORIGIN.toFixed(1)}) / ${FDTD_CELL_SIZE.toFixed(2)} - 0.5;
+    vec2 i0 = floor(f);
+    if (any(lessThan(i0, vec2(0.0))) || any(greaterThanEqual(i0, vec2(${FDTD_GRID_SIZE - 1}.0)))) return vec4(0.0);
+    vec2 t = f - i0;
+    ivec2 c = ivec2(i0);
+    vec4 a = texelFetch(uFieldState, c, 0);
+    vec4 b = texelFetch(uFieldState, c + ivec2(1, 0), 0);
+    vec4 d = texelFetch(uFieldState, c + ivec2(0, 1), 0);
+    vec4 e = texelFetch(uFieldState, c + ivec2(1, 1), 0);
+    return mix(mix(a, b, t.x), mix(d, e, t.x), t.y);
+  }
+
+  // Reflecting walls, see sourceEmitters() in waveField.ts
+  uniform int uWallCount;
+  uniform vec4 uWalls[${MAX_WALLS}];      // x1, y1, x2, y2
+  uniform vec2 uWallParams[${MAX_WALLS}]; // reflection R, phase shift
+
+  // Absorbing barriers, their openings are handled by Huygens sources
+  uniform int uBarrierCount;
+  uniform vec4 uBarriers[${MAX_BARRIERS}]; // x1, y1, x2, y2
+
+  float crossOrient(vec2 a, vec2 b, vec2 c) {
+    return (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+  }
+
+  // Whether the segment a -> b properly crosses the wall
+  bool crossesWall(vec2 a, vec2 b, vec4 wall) {
+    float d1 = crossOrient(wall.xy, wall.zw, a);
+    float d2 = crossOrient(wall.xy, wall.zw, b);
+    float d3 = crossOrient(a, b, wall.xy);
+    float d4 = crossOrient(a, b, wall.zw);
+    return d1 * d2 < 0.0 && d3 * d4 < 0.0;
+  }
+
+  bool pathBlocked(vec2 a, vec2 b, int skip) {
+    for (int j = 0; j < ${MAX_WALLS}; j++) {
+      if (j >= uWallCount) break;
+      if (j != skip && crossesWall(a, b, uWalls[j])) return true;
+    }
+    for (int j = 0; j < ${MAX_BARRIERS}; j++) {
+      if (j >= uBarrierCount) break;
+      if (crossesWall(a, b, uBarriers[j])) return true;
+    }
+    return false;
+  }
+
+  // Huygens sources only radiate into the half-plane behind their barrier
+  bool radiatesTo(int barrier, float side, vec2 p) {
+    if (barrier < 0) return true;
+    vec4 b = uBarriers[barrier];
+    return sign(crossOrient(b.xy, b.zw, p)) == side;
+  }
+
+  // Speed regions (convex polygons, counter-clockwise), see travelTime() in waveField.ts
+  uniform int uRegionCount;
+  uniform float uRegionSpeeds[${MAX_SPEED_REGIONS}];
+  uniform int uRegionVertexCounts[${MAX_SPEED_REGIONS}];
+  uniform vec2 uRegionVertices[${MAX_SPEED_REGIONS * MAX_REGION_VERTICES}];
+
+  // Parameter range [t0, t1] of the segment a -> b inside region r (Cyrus-Beck)
+  vec2 clipToRegion(vec2 a, vec2 b, int r) {
+    vec2 d = b - a;
+    float t0 = 0.0;
+    float t1 = 1.0;
+    int n = uRegionVertexCounts[r];
+    for (int k = 0; k < ${MAX_REGION_VERTICES}; k++) {
+      if (k >= n) break;
+      vec2 p = uRegionVertices[r * ${MAX_REGION_VERTICES} + k];
+      vec2 q = uRegionVertices[r * ${MAX_REGION_VERTICES} + (k + 1) % n];
+      vec2 inward = vec2(-(q.y - p.y), q.x - p.x);
+      float num = dot(inward, a - p);
+      float den = dot(inward, d);
+      if (abs(den) < 1e-12) {
+        if (num < 0.0) return vec2(1.0, 0.0);
+        continue;
+      }
+      float t = -num / den;
+      if (den > 0.0) t0 = max(t0, t);
+      else t1 = min(t1, t);
+    }
+    return vec2(t0, t1);
+  }
+
+  float localSpeed(vec2 p) {
+    for (int r = 0; r < ${MAX_SPEED_REGIONS}; r++) {
+      if (r >= uRegionCount) break;
+      vec2 range = clipToRegion(p, p, r);
+      if (range.y >= range.x) return max(${MIN_SPEED.toFixed(1)}, uRegionSpeeds[r]);
+    }
+    return max(${MIN_SPEED.toFixed(1)}, uGlobalSpeed);
+  }
+
+  // Travel time along the straight path a -> b through the speed regions
+  float travelTime(vec2 a, vec2 b) {
+    float len = distance(a, b);
+    float slowness = 1.0 / max(${MIN_SPEED.toFixed(1)}, uGlobalSpeed);
+    float time = len * slowness;
+    for (int r = 0; r < ${MAX_SPEED_REGIONS}; r++) {
+      if (r >= uRegionCount) break;
+      vec2 range = clipToRegion(a, b, r);
+      if (range.y > range.x) time += (range.y - range.x) * len * (1.0 / max(${MIN_SPEED.toFixed(1)}, uRegionSpeeds[r]) - slowness);
+    }
+    return time;
+  }
+
+  ${sourceMotionChunk}
+
+  ${sourceSignalChunk}
+
+  // Up to two delays s with |p - position(t - s)| = c * s, -1 if missing
+  vec2 emissionDelays(vec2 origin, vec4 motion, vec2 p, float t, float c) {
+    vec2 now = motionPosition(origin, motion, t);
+    if (motion.x == ${MotionPath.Linear}.0) {
+      vec2 u = motionVelocity(motion, t);
+      vec2 d = p - now;
+      float a = c * c - motion.y * motion.y;
+      float b = dot(d, u);
+      float dd = dot(d, d);
+      if (abs(a) < 1e-6) return vec2(b < 0.0 ? -dd / (2.0 * b) : -1.0, -1.0);
+      float disc = b * b + a * dd;
+      if (disc < 0.0) return vec2(-1.0);
+      float root = sqrt(disc);
+      if (a > 0.0) return vec2((b + root) / a, -1.0);
+      // Faster than c: two delays inside the Mach cone, none outside
+      if (b >= 0.0) return vec2(-1.0);
+      return vec2((b + root) / a, (b - root) / a);
+    }
+
+    float s = distance(p, now) / c;
+    for (int k = 0; k < 8; k++) {
+      vec2 e = motionPosition(origin, motion, t - s);
+      vec2 v = motionVelocity(motion, t - s);
+      float r = max(distance(p, e), 1e-4);
+      float df = dot(p - e, v) / r - c;
+      s -= (r - c * s) / min(df, -1e-3 * c);
+    }
+    return vec2(max(s, 0.0), -1.0);
+  }
+
+  vec2 mirrorPoint(vec2 p, vec4 wall) {
+    vec2 dir = wall.zw - wall.xy;
+    float len2 = dot(dir, dir);
+    if (len2 == 0.0) return p;
+    vec2 foot = wall.xy + dir * (dot(p - wall.xy, dir) / len2);
+    return 2.0 * foot - p;
+  }
 
   void main() {
     vUv = uv;
@@ -197,94 +448,273 @@ const vertexShader = `
     float realSumSpatial = 0.0; 
     float imagSumSpatial = 0.0;
     
-    // Array to store individual phases for pairwise difference calculation
-    float phases[${MAX_SOURCES}];
+    // Phasor sums for the pairwise phase difference:
+    // sum_{i<j} e^(i(theta_i - theta_j)) = sum_j prefix_j * conj(z_j)
+    vec2 phasorPrefix = vec2(0.0);
+    vec2 pairSum = vec2(0.0);
+    int phaseCount = 0;
 
-    float safeSpeed = max(0.1, uGlobalSpeed);
+    // Time averages: phasor sums per frequency (xy, z = omega), sources
+    // beyond the groups add incoherently (see sampleField() in waveField.ts)
+    vec3 groupPhasor[${MAX_FREQUENCY_GROUPS}];
+    int groupCount = 0;
+    float meanSquare = 0.0;
+    float energy = 0.0;
 
-    // --- Pass 1: Calculate Superposition & Store Phases ---
-    for(int i = 0; i < ${MAX_SOURCES}; i++) {
-      if (i >= uSourceCount) {
-         phases[i] = 0.0;
-         continue; 
-      } else {
-      
-          vec2 sourcePos = uSourcePos[i];
-          float amp = uSourceParams[i].x;
-          float freq = uSourceParams[i].y;
-          float phase = uSourceParams[i].z;
-    
-          float dist = distance(simPos, sourcePos);
+    // Gradient of the phasor sum for the wave vector: d(re)/dxy, d(im)/dxy
+    vec4 phasorGradient = vec4(0.0);
+
+    // Local speed for the wave number in the normals
+    float safeSpeed = localSpeed(simPos);
+
+    if (uSolver == 1) {
+      // --- Numerical field, see fdtdSolver.ts ---
+      vec4 field = fieldAt(simPos);
+      elevation = field.r;
+
+      // Gradient and Laplacian from the neighbouring cells
+      float h = ${FDTD_CELL_SIZE.toFixed(2)};
+      float uL = fieldAt(simPos - vec2(h, 0.0)).r;
+      float uR = fieldAt(simPos + vec2(h, 0.0)).r;
+      float uD = fieldAt(simPos - vec2(0.0, h)).r;
+      float uU = fieldAt(simPos + vec2(0.0, h)).r;
+      dzdx = (uR - uL) / (2.0 * h);
+      dzdy = (uU - uD) / (2.0 * h);
+      float lap = (uL + uR + uD + uU - 4.0 * field.r) / (h * h);
+
+      float omega = max(uReferenceFrequency, 0.01);
+      if (uParamMode == 0) {
+         displayValue = field.r;
+      } else if (uParamMode == 1) {
+         displayValue = field.a / omega;
+      } else if (uParamMode == 2) {
+         displayValue = safeSpeed * safeSpeed * lap / (omega * omega);
+      } else if (uParamMode == 3) {
+         displayValue = field.b;
+      } else if (uParamMode == 5) {
+         displayValue = field.b * field.b;
+      } else if (uParamMode == 6) {
+         displayValue = 0.5 * omega * omega * field.b * field.b;
+      } else if (uParamMode == 7) {
+         displayValue = field.b * ${Math.SQRT1_2.toFixed(6)};
+      } else if (uParamMode == 8) {
+         // No phase to differentiate: like sampleFdtd(), the wavelength of
+         // the local speed wherever energy flows (flux -du/dt * grad(u)),
+         // 0 where the field is flat
+         float flux = length(-field.a * vec2(uR - uL, uU - uD));
+         displayValue = flux > 1e-12 ? ${(2 * Math.PI).toFixed(6)} * safeSpeed / omega : 0.0;
+      }
+      // The numerical model has no phase, the phase mode stays 0
+    } else {
+      // --- Pass 1: Calculate Superposition ---
+      for(int i = 0; i < ${MAX_SOURCES}; i++) {
+        if (i >= uSourceCount) break;
+
+        vec4 sourceRow0 = texelFetch(uSourceData, ivec2(i, 0), 0);
+        vec4 sourceRow1 = texelFetch(uSourceData, ivec2(i, 1), 0);
+        vec4 motion = texelFetch(uSourceData, ivec2(i, 2), 0);
+        vec4 emission = texelFetch(uSourceData, ivec2(i, 3), 0);
+        float harmonic = sourceRow1.w;
+        vec2 sourcePos = sourceRow0.xy;
+        float sourceAmp = sourceRow0.z;
+        float freq = sourceRow0.w;
+        float phase = sourceRow1.x;
+        int sourceBarrier = int(sourceRow1.y);
+        float sourceSide = sourceRow1.z;
+        if (!radiatesTo(sourceBarrier, sourceSide, simPos)) continue;
+
+        // Phasor of this source alone (without its amplitude), for the phase mode
+        vec2 sourcePhasor = vec2(0.0);
+
+        // Moving sources emit the direct wave from their retarded positions,
+        // one or two (inside a Mach cone) per point; walls do not mirror them
+        bool moving = motion.x != ${MotionPath.Static}.0;
+        float movingSpeed = max(${MIN_SPEED.toFixed(1)}, uGlobalSpeed);
+        vec2 delays = moving ? emissionDelays(sourcePos, motion, simPos, uTime, movingSpeed) : vec2(-1.0);
+
+        // Deep water: k = omega^2 / g, phase and group delay instead of the
+        // travel time (see emitterDelays() in waveField.ts)
+        bool deepWater = !moving && texelFetch(uSourceData, ivec2(i, 4), 0).x == ${Dispersion.DeepWater}.0;
+
+        // Emitters: k = -1 is the direct wave, k >= 0 the mirror image behind wall k;
+        // k = -2 and -1 are the two retarded emissions of a moving source
+        for (int k = -2; k < ${MAX_WALLS}; k++) {
+          if (moving ? k >= 0 : k >= uWallCount) break;
+          if (!moving && k == -2) continue;
+
+          vec2 emitterPos = sourcePos;
+          float gain = 1.0;
+          float phaseShift = 0.0;
+          float travel = 0.0;
+          // Doppler factor of the observed frequency, 1 for static sources
+          float doppler = 1.0;
+
+          if (moving) {
+            float delay = k == -2 ? delays.x : delays.y;
+            if (delay < 0.0) continue;
+            emitterPos = motionPosition(sourcePos, motion, uTime - delay);
+            if (pathBlocked(emitterPos, simPos, -1)) continue;
+            travel = delay;
+            vec2 n = simPos - emitterPos;
+            float r = length(n);
+            if (r > 1e-6) {
+              float denom = movingSpeed - dot(n / r, motionVelocity(motion, uTime - delay));
+              doppler = movingSpeed / (sign(denom + 1e-12) * max(abs(denom), ${DOPPLER_MIN_DENOMINATOR} * movingSpeed));
+            }
+          } else if (k < 0) {
+            if (pathBlocked(sourcePos, simPos, -1)) continue;
+            travel = travelTime(sourcePos, simPos);
+          } else {
+            vec4 wall = uWalls[k];
+            emitterPos = mirrorPoint(sourcePos, wall);
+            if (!crossesWall(emitterPos, simPos, wall)) continue;
+
+            // Reflection point on the wall
+            vec2 d = simPos - emitterPos;
+            vec2 w = wall.zw - wall.xy;
+            float f = ((wall.x - emitterPos.x) * w.y - (wall.y - emitterPos.y) * w.x) / (d.x * w.y - d.y * w.x);
+            vec2 q = emitterPos + f * d;
+            if (!radiatesTo(sourceBarrier, sourceSide, q)) continue;
+            if (pathBlocked(sourcePos, q, k) || pathBlocked(q, simPos, k)) continue;
+
+            gain = uWallParams[k].x;
+            phaseShift = uWallParams[k].y;
+            travel = travelTime(sourcePos, q) + travelTime(q, simPos);
+          }
+
+          float dist = distance(simPos, emitterPos);
           float safeDist = max(dist, 0.01); 
-          
+
+          float groupTravel = travel;
+          float waveNumber = freq * doppler / (moving ? movingSpeed : safeSpeed);
+          if (deepWater) {
+            travel = freq * dist / ${GRAVITY.toFixed(2)};
+            groupTravel = 2.0 * travel;
+            waveNumber = freq * freq / ${GRAVITY.toFixed(2)};
+          }
+
           // Wave argument (Total phase)
-          // theta = omega * (t - r/c) + delta_phi
-          float theta = freq * (uTime - dist / safeSpeed) + phase;
-          phases[i] = theta; 
-          
-          float cosTheta = cos(theta);
-          float sinTheta = sin(theta);
-          
+          // theta = omega * (t - r/c) + delta_phi, r/c summed over the speed regions
+          float theta = freq * (uTime - travel) + phase + phaseShift;
+
+          // Emitted signal, zero beyond r = c * (t - t_start)
+          vec4 signal = sourceSignal(emission, freq, theta, phaseShift, uTime - groupTravel);
+          float cosTheta = signal.w * cos(theta);
+          float sinTheta = signal.w * sin(theta);
+
+          // Distance attenuation: geometric spreading * absorption,
+          // plus d(ln attenuation)/dr for the normals
+          float refDist = ${FALLOFF_REFERENCE_DISTANCE.toFixed(1)};
+          float spreading = 1.0;
+          float dLnAtten_dr = -uAbsorption;
+          if (uFalloff == 1) {
+             spreading = inversesqrt(max(dist, refDist) / refDist);
+             if (dist > refDist) dLnAtten_dr -= 0.5 / dist;
+          } else if (uFalloff == 2) {
+             spreading = refDist / max(dist, refDist);
+             if (dist > refDist) dLnAtten_dr -= 1.0 / dist;
+          }
+          float weight = gain * spreading * exp(-uAbsorption * dist);
+          float amp = sourceAmp * weight;
+          sourcePhasor += weight * vec2(cosTheta, sinTheta);
+
           // Damping for horizon
           float damp = 1.0; 
           if (uRenderStyle == 1 && dist > 1200.0) {
              damp = max(0.0, 1.0 - (dist - 1200.0) / 400.0);
           }
-          
-          float s = amp * sinTheta * damp;
+
+          float s = amp * signal.x * damp;
           elevation += s;
-    
+
           // Analytical Normals
-          float dWave_dr = -(amp * freq * cosTheta * damp) / safeSpeed;
-          float dr_dx = (simPos.x - sourcePos.x) / safeDist;
-          float dr_dy = (simPos.y - sourcePos.y) / safeDist;
-    
+          float dWave_dr = amp * damp * (dLnAtten_dr * signal.x - waveNumber * signal.y);
+          float dr_dx = (simPos.x - emitterPos.x) / safeDist;
+          float dr_dy = (simPos.y - emitterPos.y) / safeDist;
+
           dzdx += dWave_dr * dr_dx;
           dzdy += dWave_dr * dr_dy;
-    
+
           // Accumulate Data Values
           if (uParamMode == 0) {
              displayValue += s;
           } else if (uParamMode == 1) {
-             displayValue += amp * cosTheta; 
+             displayValue += amp * doppler * signal.y; 
           } else if (uParamMode == 2) {
-             displayValue += -amp * sinTheta;
-          } else if (uParamMode == 3) {
+             displayValue += amp * doppler * doppler * signal.z;
+          } else if (uParamMode == 3 || uParamMode == 5 || uParamMode == 8) {
              // Amplitude Envelope phasor sum
-             realSumSpatial += amp * cos(theta);
-             imagSumSpatial += amp * sin(theta);
+             realSumSpatial += amp * cosTheta;
+             imagSumSpatial += amp * sinTheta;
           }
+          if (uParamMode == 8) {
+             // grad(a e^(i theta)) = a e^(i theta) (d(ln a)/dr - i k) r_hat
+             vec2 d = amp * vec2(cosTheta * dLnAtten_dr + sinTheta * waveNumber, sinTheta * dLnAtten_dr - cosTheta * waveNumber);
+             phasorGradient += vec4(d.x * dr_dx, d.x * dr_dy, d.y * dr_dx, d.y * dr_dy);
+          }
+        }
+
+        // Waves of different frequencies average out against each other
+        if (uParamMode == 6 || uParamMode == 7) {
+           vec2 p = sourceAmp * sourcePhasor;
+           bool grouped = false;
+           for (int g = 0; g < ${MAX_FREQUENCY_GROUPS}; g++) {
+             if (g >= groupCount) break;
+             if (abs(groupPhasor[g].z - freq) < 1e-6) {
+               groupPhasor[g].xy += p;
+               grouped = true;
+               break;
+             }
+           }
+           if (!grouped && groupCount < ${MAX_FREQUENCY_GROUPS}) {
+             groupPhasor[groupCount] = vec3(p, freq);
+             groupCount++;
+           } else if (!grouped) {
+             meanSquare += 0.5 * dot(p, p);
+             energy += 0.5 * freq * freq * dot(p, p);
+           }
+        }
+
+        // Sources that do not reach this point have no phase here, a non-sine
+        // source counts with its fundamental only
+        if (uParamMode == 4 && harmonic <= 1.0 && length(sourcePhasor) > 1e-6) {
+           vec2 z = normalize(sourcePhasor);
+           pairSum += vec2(phasorPrefix.x * z.x + phasorPrefix.y * z.y, phasorPrefix.y * z.x - phasorPrefix.x * z.y);
+           phasorPrefix += z;
+           phaseCount++;
+        }
       }
-    }
     
-    // --- Pass 2: Finalize Values ---
+      // --- Pass 2: Finalize Values ---
     
-    if (uParamMode == 3) {
-      displayValue = sqrt(realSumSpatial * realSumSpatial + imagSumSpatial * imagSumSpatial);
-    } 
-    else if (uParamMode == 4) {
-      // Mean Pairwise Phase Difference using Circular Mean
-      float sumSin = 0.0;
-      float sumCos = 0.0;
-      float pairCount = 0.0;
-      
-      for (int i = 0; i < ${MAX_SOURCES}; i++) {
-         if (i >= uSourceCount) break;
-         for (int j = i + 1; j < ${MAX_SOURCES}; j++) {
-            if (j >= uSourceCount) break;
-            
-            float diff = phases[i] - phases[j];
-            sumSin += sin(diff);
-            sumCos += cos(diff);
-            pairCount += 1.0;
-         }
+      if (uParamMode == 3) {
+        displayValue = sqrt(realSumSpatial * realSumSpatial + imagSumSpatial * imagSumSpatial);
+      } 
+      else if (uParamMode == 5) {
+        displayValue = realSumSpatial * realSumSpatial + imagSumSpatial * imagSumSpatial;
       }
-      
-      if (pairCount > 0.0) {
-          // Result in [-PI, PI]
-          displayValue = atan(sumSin, sumCos);
-      } else {
-          displayValue = 0.0;
+      else if (uParamMode == 6 || uParamMode == 7) {
+        for (int g = 0; g < ${MAX_FREQUENCY_GROUPS}; g++) {
+          if (g >= groupCount) break;
+          meanSquare += 0.5 * dot(groupPhasor[g].xy, groupPhasor[g].xy);
+          energy += 0.5 * groupPhasor[g].z * groupPhasor[g].z * dot(groupPhasor[g].xy, groupPhasor[g].xy);
+        }
+        displayValue = uParamMode == 6 ? energy : sqrt(meanSquare);
+      }
+      else if (uParamMode == 8) {
+        // Local wavelength 2 PI / |k|, k = -grad(arg P)
+        float power = realSumSpatial * realSumSpatial + imagSumSpatial * imagSumSpatial;
+        vec2 k = -(realSumSpatial * phasorGradient.zw - imagSumSpatial * phasorGradient.xy) / max(power, 1e-8);
+        displayValue = power < 1e-8 || length(k) < 1e-6 ? 0.0 : ${(2 * Math.PI).toFixed(6)} / length(k);
+      }
+      else if (uParamMode == 4) {
+        // Mean Pairwise Phase Difference using Circular Mean
+        if (phaseCount > 1) {
+            // Result in [-PI, PI]
+            displayValue = atan(pairSum.y, pairSum.x);
+        } else {
+            displayValue = 0.0;
+        }
       }
     }
       
@@ -316,16 +746,11 @@ const fragmentShader = `
 
   uniform int uParamMode;
   uniform int uRenderStyle; // 0=Params3D, 1=Water, 2=Params2D
+  uniform sampler2D uColormap; // 256 x 1 lookup table, see colormaps.ts
+  uniform vec2 uValueRange;    // values mapped to the first and last entry
 
   ${skyColorLogic}
 
-  // HSV to RGB helper
-  vec3 hsv2rgb(vec3 c) {
-      vec4 K = vec4(1.0, 2.0 / 3.0, 1.0 / 3.0, 3.0);
-      vec3 p = abs(fract(c.xxx + K.xyz) * 6.0 - K.www);
-      return c.z * mix(K.xxx, clamp(p - K.xxx, 0.0, 1.0), c.y);
-  }
-
   void main() {
     vec3 finalColor;
     float alpha = 1.0;
@@ -377,31 +802,11 @@ const fragmentShader = `
     } 
     // --- Data Mode (Params 3D / 2D) ---
     else {
-        vec3 baseColor;
         float val = vValue;
 
-        // Color Mapping
-        if (uParamMode == 3) {
-          // Amplitude: 0 (White) -> Max (Blue)
-          float t = smoothstep(0.0, 2.0, val);
-          baseColor = mix(vec3(1.0), vec3(0.0, 0.4, 1.0), t);
-          if (val < 0.05) baseColor = vec3(1.0, 1.0, 1.0); // Node highlighting
-          
-        } else if (uParamMode == 4) {
-           // Phase Difference: -PI to +PI
-           // Map: Hue = fract(val / (2.0 * PI))
-           float hue = fract(val / 6.2831853);
-           baseColor = hsv2rgb(vec3(hue, 1.0, 1.0));
-
-        } else {
-          // s, v, a: Neg(Red) -> 0(White) -> Pos(Blue)
-          float t = clamp(val / 1.5, -1.0, 1.0);
-          vec3 red = vec3(1.0, 0.0, 0.0);
-          vec3 white = vec3(1.0, 1.0, 1.0);
-          vec3 blue = vec3(0.0, 0.0, 1.0);
-          if (t > 0.0) baseColor = mix(white, blue, t);
-          else baseColor = mix(white, red, -t);
-        }
+        // Color Mapping: lookup at the position of the value in the range
+        float t = clamp((val - uValueRange.x) / (uValueRange.y - uValueRange.x), 0.0, 1.0);
+        vec3 baseColor = texture(uColormap, vec2(t, 0.5)).rgb;
 
         // Apply Shading ONLY if it's Params 3D
         if (uRenderStyle == 0) {
@@ -449,6 +854,85 @@ void main() {
 }
 `;
 
+// Full-screen quad for the numerical solver passes
+const fdtdQuadVertexShader = `
+void main() {
+    gl_Position = vec4(position.xy, 0.0, 1.0);
+}
+`;
+
+// One leapfrog step of the damped wave equation, one fragment per cell.
+// Output RGBA: u, u_prev, envelope, du/dt (see FdtdField)
+const fdtdStepShader = `
+  uniform sampler2D uState;
+  uniform sampler2D uMask; // r: obstacle kind, g: sponge profile, b: local speed
+  uniform sampler2D uSourceData;
+  uniform int uSourceCount;
+  uniform float uTime; // time after the step
+  uniform float uDt;
+  uniform float uGamma;
+  uniform float uSponge;
+  uniform float uEnvelopeDecay;
+
+  ${sourceMotionChunk}
+
+  ${sourceSignalChunk}
+
+  // Neighbour value as seen from a water cell with value u
+  float neighbour(ivec2 cell, float u) {
+    if (cell.x < 0 || cell.y < 0 || cell.x >= ${FDTD_GRID_SIZE} || cell.y >= ${FDTD_GRID_SIZE}) return 0.0;
+    float kind = texelFetch(uMask, cell, 0).r;
+    if (kind == ${ObstacleKind.Fixed}.0) return 0.0;
+    if (kind == ${ObstacleKind.Loose}.0) return u;
+    return texelFetch(uState, cell, 0).r;
+  }
+
+  void main() {
+    ivec2 cell = ivec2(gl_FragCoord.xy);
+    vec4 mask = texelFetch(uMask, cell, 0);
+    if (mask.r != ${ObstacleKind.Water}.0) {
+      gl_FragColor = vec4(0.0);
+      return;
+    }
+
+    vec4 state = texelFetch(uState, cell, 0);
+    float u = state.r;
+    float prev = state.g;
+    float lap = neighbour(cell + ivec2(-1, 0), u) + neighbour(cell + ivec2(1, 0), u)
+              + neighbour(cell + ivec2(0, -1), u) + neighbour(cell + ivec2(0, 1), u) - 4.0 * u;
+    float damp = (uGamma + uSponge * mask.g) * uDt;
+    float courant = mask.b * uDt / ${FDTD_CELL_SIZE.toFixed(2)};
+    float next = (2.0 * u - (1.0 - damp) * prev + courant * courant * lap) / (1.0 + damp);
+    float velocity = (next - prev) / (2.0 * uDt);
+
+    // Driven discs, overlapping sources add up
+    vec2 pos = ${FDTD_ORIGIN.toFixed(1)} + (vec2(cell) + 0.5) * ${FDTD_CELL_SIZE.toFixed(2)};
+    bool driven = false;
+    float driveU = 0.0;
+    float driveV = 0.0;
+    for (int i = 0; i < ${MAX_SOURCES}; i++) {
+      if (i >= uSourceCount) break;
+      vec4 sourceRow0 = texelFetch(uSourceData, ivec2(i, 0), 0);
+      vec4 motion = texelFetch(uSourceData, ivec2(i, 2), 0);
+      if (distance(pos, motionPosition(sourceRow0.xy, motion, uTime)) > ${FDTD_SOURCE_RADIUS.toFixed(2)}) continue;
+      // Silent sources leave the water free
+      float phase = texelFetch(uSourceData, ivec2(i, 1), 0).x;
+      vec4 emission = texelFetch(uSourceData, ivec2(i, 3), 0);
+      vec4 signal = sourceSignal(emission, sourceRow0.w, sourceRow0.w * uTime + phase, 0.0, uTime);
+      if (signal.w == 0.0) continue;
+      driveU += sourceRow0.z * signal.x;
+      driveV += sourceRow0.z * sourceRow0.w * signal.y;
+      driven = true;
+    }
+    if (driven) {
+      next = driveU;
+      velocity = driveV;
+    }
+
+    gl_FragColor = vec4(next, u, max(abs(next), state.b * uEnvelopeDecay), velocity);
+  }
+`;
+
 // --- Components ---
 
 const Skybox = () => {
@@ -465,35 +949,356 @@ const Skybox = () => {
     );
 };
 
+const createSourceTexture = () => {
+  const texture = new THREE.DataTexture(
+    new Float32Array(MAX_SOURCES * SOURCE_TEXTURE_ROWS * 4),
+    MAX_SOURCES,
+    SOURCE_TEXTURE_ROWS,
+    THREE.RGBAFormat,
+    THREE.FloatType
+  );
+  texture.minFilter = THREE.NearestFilter;
+  texture.magFilter = THREE.NearestFilter;
+  texture.needsUpdate = true;
+  return texture;
+};
+
+// Color lookup of the data modes, filled by colormapTable()
+const COLORMAP_SIZE = 256;
+
+const createColormapTexture = () => {
+  const texture = new THREE.DataTexture(new Uint8Array(COLORMAP_SIZE * 4), COLORMAP_SIZE, 1, THREE.RGBAFormat, THREE.UnsignedByteType);
+  texture.minFilter = THREE.LinearFilter;
+  texture.magFilter = THREE.LinearFilter;
+  texture.wrapS = THREE.ClampToEdgeWrapping;
+  texture.needsUpdate = true;
+  return texture;
+};
+
+// Pack the sources into the data texture, layout see SOURCE_TEXTURE_ROWS
+const writeSourceTexture = (texture: THREE.DataTexture, sources: WaveSource[]) => {
+  const data = texture.image.data as Float32Array;
+  const rowStride = MAX_SOURCES * 4;
+
+  sources.forEach((source, i) => {
+    if (i >= MAX_SOURCES) return;
+    const row0 = i * 4;
+    data[row0] = source.x;
+    data[row0 + 1] = source.y;
+    data[row0 + 2] = source.amplitude;
+    data[row0 + 3] = source.frequency;
+
+    const row1 = rowStride + i * 4;
+    data[row1] = source.phase;
+    data[row1 + 1] = source.barrier ?? -1;
+    data[row1 + 2] = source.side ?? 0;
+    data[row1 + 3] = source.harmonic ?? 0;
+
+    const row2 = 2 * rowStride + i * 4;
+    const motion = isMoving(source) ? source.motion : null;
+    data[row2] = motion ? motion.path : MotionPath.Static;
+    data[row2 + 1] = motion ? motion.speed : 0;
+    data[row2 + 2] = motion ? motion.direction : 0;
+    data[row2 + 3] = motion ? motion.radius : 0;
+
+    const row3 = 3 * rowStride + i * 4;
+    const emission = source.emission;
+    data[row3] = emission ? emission.waveform : -1;
+    data[row3 + 1] = emission ? emission.start : 0;
+    data[row3 + 2] = emission && Number.isFinite(emission.stop) ? emission.stop : 1e30;
+    data[row3 + 3] = emission ? emission.width : 0;
+
+    const row4 = 4 * rowStride + i * 4;
+    data[row4] = source.dispersion ?? Dispersion.None;
+  });
+  texture.needsUpdate = true;
+};
+
+// Copy the walls into the fixed-size uniform arrays of the shader
+const writeWallUniforms = (
+  uniforms: { uWallCount: { value: number }, uWalls: { value: THREE.Vector4[] }, uWallParams: { value: THREE.Vector2[] } },
+  walls: Wall[]
+) => {
+  const count = Math.min(walls.length, MAX_WALLS);
+  uniforms.uWallCount.value = count;
+  for (let k = 0; k < count; k++) {
+    const w = walls[k];
+    uniforms.uWalls.value[k].set(w.x1, w.y1, w.x2, w.y2);
+    uniforms.uWallParams.value[k].set(w.reflection, w.phaseFlip ? Math.PI : 0);
+  }
+};
+
+// Output of the numerical solver: the field texture for the WaveMesh and,
+// when requested, a CPU copy of the field for probes and the section plot
+interface FdtdOutput {
+  texture: THREE.Texture | null;
+  data: Float32Array | null;
+  omega: number; // reference frequency, see referenceFrequency()
+}
+
+const createFieldTexture = (data: Float32Array) => {
+  const texture = new THREE.DataTexture(data, FDTD_GRID_SIZE, FDTD_GRID_SIZE, THREE.RGBAFormat, THREE.FloatType);
+  texture.minFilter = THREE.NearestFilter;
+  texture.magFilter = THREE.NearestFilter;
+  texture.needsUpdate = true;
+  return texture;
+};
+
+// Real time between two readbacks of the GPU field (ms)
+const FDTD_READBACK_INTERVAL = 50;
+
+// Runs the numerical solver in step with timeRef. Integrates on the GPU with
+// two float render targets (ping-pong) and falls back to stepFdtd() on the
+// CPU where float render targets are not supported.
+const FdtdSolver = ({
+  sources,
+  medium,
+  timeRef,
+  outputRef,
+  readback
+}: {
+  sources: WaveSource[],
+  medium: Medium,
+  timeRef: React.MutableRefObject<number>,
+  outputRef: React.MutableRefObject<FdtdOutput>,
+  readback: boolean
+}) => {
+  const gl = useThree(state => state.gl);
+  const gpu = useMemo(() => gl.capabilities.isWebGL2 && gl.extensions.has('EXT_color_buffer_float'), [gl]);
+
+  const maskTexture = useMemo(
+    () => createFieldTexture(createObstacleMask(medium)),
+    // Only obstacles and speed regions end up in the mask
+    [medium.walls, medium.barriers, medium.regions]
+  );
+  useEffect(() => () => maskTexture.dispose(), [maskTexture]);
+
+  const gpuState = useMemo(() => {
+    if (!gpu) return null;
+    const options = {
+      type: THREE.FloatType,
+      format: THREE.RGBAFormat,
+      minFilter: THREE.NearestFilter,
+      magFilter: THREE.NearestFilter,
+      depthBuffer: false,
+    };
+    const material = new THREE.ShaderMaterial({
+      vertexShader: fdtdQuadVertexShader,
+      fragmentShader: fdtdStepShader,
+      uniforms: {
+        uState: { value: null },
+        uMask: { value: null },
+        uSourceData: { value: createSourceTexture() },
+        uSourceCount: { value: 0 },
+        uTime: { value: 0 },
+        uDt: { value: 0 },
+        uGamma: { value: 0 },
+        uSponge: { value: 0 },
+        uEnvelopeDecay: { value: 1 },
+      },
+    });
+    const scene = new THREE.Scene();
+    scene.add(new THREE.Mesh(new THREE.PlaneGeometry(2, 2), material));
+    return {
+      targets: [0, 1].map(() => new THREE.WebGLRenderTarget(FDTD_GRID_SIZE, FDTD_GRID_SIZE, options)),
+      current: 0,
+      material,
+      scene,
+      camera: new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1),
+      snapshot: new Float32Array(FDTD_GRID_SIZE * FDTD_GRID_SIZE * 4),
+    };
+  }, [gpu]);
+
+  const cpuState = useMemo(() => {
+    if (gpu) return null;
+    const field = createFdtdField();
+    return { field, texture: createFieldTexture(field.data) };
+  }, [gpu]);
+
+  // Solver time, null until the first frame
+  const solverTimeRef = useRef<number | null>(null);
+  // Real and solver time of the last GPU readback, null when the snapshot is outdated
+  const readbackRef = useRef<{ at: number, time: number } | null>(null);
+
+  useEffect(() => () => {
+    if (gpuState) {
+      gpuState.targets.forEach(t => t.dispose());
+      gpuState.material.uniforms.uSourceData.value.dispose();
+      gpuState.material.dispose();
+    }
+    if (cpuState) cpuState.texture.dispose();
+    outputRef.current = { texture: null, data: null, omega: 1 };
+    readbackRef.current = null;
+  }, [gpuState, cpuState, outputRef]);
+
+  const clear = (time: number) => {
+    solverTimeRef.current = time;
+    readbackRef.current = null;
+    if (cpuState) resetFdtdField(cpuState.field, time);
+    if (gpuState) {
+      const clearColor = gl.getClearColor(new THREE.Color());
+      const clearAlpha = gl.getClearAlpha();
+      gl.setClearColor(0x000000, 0);
+      gpuState.targets.forEach(t => {
+        gl.setRenderTarget(t);
+        gl.clear(true, false, false);
+      });
+      gl.setRenderTarget(null);
+      gl.setClearColor(clearColor, clearAlpha);
+    }
+  };
+
+  useFrame(() => {
+    const target = timeRef.current;
+    // First frame or time was reset: start from a calm surface
+    if (solverTimeRef.current === null || target < solverTimeRef.current) clear(target);
+
+    const visibleSources = sources.filter(s => s.visible).slice(0, MAX_SOURCES);
+    const omega = referenceFrequency(visibleSources);
+    const maxDt = fdtdTimeStep(medium);
+    let time = solverTimeRef.current as number;
+    let steps = Math.ceil((target - time) / maxDt);
+    if (steps > FDTD_MAX_SUBSTEPS) {
+      // Too far behind (slow device, background tab): skip ahead
+      time = target - FDTD_MAX_SUBSTEPS * maxDt;
+      steps = FDTD_MAX_SUBSTEPS;
+    }
+    const dt = steps > 0 ? (target - time) / steps : maxDt;
+
+    if (gpuState) {
+      const { material, scene, camera, targets } = gpuState;
+      const u = material.uniforms;
+      writeSourceTexture(u.uSourceData.value, visibleSources);
+      u.uSourceCount.value = visibleSources.length;
+      u.uMask.value = maskTexture;
+      u.uDt.value = dt;
+      u.uGamma.value = absorptionRate(medium);
+      u.uSponge.value = spongeRate(medium);
+      u.uEnvelopeDecay.value = envelopeDecay(dt, omega);
+
+      for (let k = 0; k < steps; k++) {
+        u.uState.value = targets[gpuState.current].texture;
+        u.uTime.value = time + (k + 1) * dt;
+        gpuState.current = 1 - gpuState.current;
+        gl.setRenderTarget(targets[gpuState.current]);
+        gl.render(scene, camera);
+      }
+      gl.setRenderTarget(null);
+
+      const result = targets[gpuState.current];
+      // Copying the whole grid to the CPU stalls the pipeline, so refresh
+      // the snapshot at most every FDTD_READBACK_INTERVAL of real time, and
+      // only if the field has changed since
+      const last = readbackRef.current;
+      const now = performance.now();
+      if (!readback) {
+        readbackRef.current = null;
+      } else if (last === null || (last.time !== target && now - last.at >= FDTD_READBACK_INTERVAL)) {
+        gl.readRenderTargetPixels(result, 0, 0, FDTD_GRID_SIZE, FDTD_GRID_SIZE, gpuState.snapshot);
+        readbackRef.current = { at: now, time: target };
+      }
+      outputRef.current = { texture: result.texture, data: readback ? gpuState.snapshot : null, omega };
+    } else if (cpuState) {
+      const { field, texture } = cpuState;
+      const mask = maskTexture.image.data as Float32Array;
+      field.time = time;
+      for (let k = 0; k < steps; k++) stepFdtd(field, mask, visibleSources, medium, dt);
+      // The field swaps its buffers on every step
+      texture.image.data = field.data;
+      texture.needsUpdate = true;
+      outputRef.current = { texture, data: field.data, omega };
+    }
+
+    solverTimeRef.current = target;
+  });
+
+  return null;
+};
+
+// Copy the speed regions into the uniform arrays, counter-clockwise
+const writeRegionUniforms = (
+  uniforms: {
+    uRegionCount: { value: number },
+    uRegionSpeeds: { value: number[] },
+    uRegionVertexCounts: { value: number[] },
+    uRegionVertices: { value: THREE.Vector2[] },
+  },
+  regions: SpeedRegion[]
+) => {
+  const usable = regions.slice(0, MAX_SPEED_REGIONS);
+  uniforms.uRegionCount.value = usable.length;
+  usable.forEach((region, r) => {
+    const area = region.points.reduce((sum, p, k) => {
+      const q = region.points[(k + 1) % region.points.length];
+      return sum + (p.x * q.y - q.x * p.y);
+    }, 0);
+    const points = area < 0 ? [...region.points].reverse() : region.points;
+    uniforms.uRegionSpeeds.value[r] = region.speed;
+    uniforms.uRegionVertexCounts.value[r] = points.length;
+    points.forEach((p, k) => uniforms.uRegionVertices.value[r * MAX_REGION_VERTICES + k].set(p.x, p.y));
+  });
+};
+
 const WaveMesh = ({ 
   sources, 
-  globalSpeed,
+  medium,
   geometrySpeed,
   isPlaying, 
+  timeScale,
   timeRef, 
   paramMode,
-  appMode
+  appMode,
+  solver,
+  fdtdRef,
+  colormap,
+  valueRange
 }: { 
   sources: WaveSource[], 
-  globalSpeed: number, 
+  medium: Medium, 
   geometrySpeed: number,
   isPlaying: boolean, 
+  timeScale: number, // simulated seconds per second, negative plays backwards
   timeRef: React.MutableRefObject<number>, 
   paramMode: ParamMode,
-  appMode: AppMode
+  appMode: AppMode,
+  solver: SolverMode,
+  fdtdRef: React.MutableRefObject<FdtdOutput>,
+  colormap: Colormap,
+  valueRange: ValueRange
 }) => {
   const meshRef = useRef<THREE.Mesh>(null);
   
   const uniforms = useMemo(() => ({
     uTime: { value: 0 },
     uGlobalSpeed: { value: 5.0 },
+    uFalloff: { value: 0 },
+    uAbsorption: { value: 0 },
     uSourceCount: { value: 0 },
-    uSourcePos: { value: new Float32Array(MAX_SOURCES * 2) },
-    uSourceParams: { value: new Float32Array(MAX_SOURCES * 3) },
+    uSourceData: { value: createSourceTexture() },
+    uWallCount: { value: 0 },
+    uWalls: { value: Array.from({ length: MAX_WALLS }, () => new THREE.Vector4()) },
+    uWallParams: { value: Array.from({ length: MAX_WALLS }, () => new THREE.Vector2()) },
+    uBarrierCount: { value: 0 },
+    uBarriers: { value: Array.from({ length: MAX_BARRIERS }, () => new THREE.Vector4()) },
+    uRegionCount: { value: 0 },
+    uRegionSpeeds: { value: new Array<number>(MAX_SPEED_REGIONS).fill(0) },
+    uRegionVertexCounts: { value: new Array<number>(MAX_SPEED_REGIONS).fill(0) },
+    uRegionVertices: { value: Array.from({ length: MAX_SPEED_REGIONS * MAX_REGION_VERTICES }, () => new THREE.Vector2()) },
     uParamMode: { value: 0 },
     uRenderStyle: { value: 0 }, // 0=Params3D, 1=Water, 2=Params2D
+    uColormap: { value: createColormapTexture() },
+    uValueRange: { value: new THREE.Vector2(-1.5, 1.5) },
+    uSolver: { value: 0 },
+    uFieldState: { value: null as THREE.Texture | null },
+    uReferenceFrequency: { value: 1 },
   }), []);
 
+  useEffect(() => {
+    const texture = uniforms.uColormap.value;
+    (texture.image.data as Uint8Array).set(colormapTable(colormap, paramMode, COLORMAP_SIZE));
+    texture.needsUpdate = true;
+  }, [uniforms, colormap, paramMode]);
+
   // Dynamic resolution calculation
   const gridResolution = useMemo(() => {
      const s = Math.round(Math.max(1, geometrySpeed));
@@ -568,7 +1373,8 @@ const WaveMesh = ({
 
   useFrame((state, delta) => {
     if (isPlaying) {
-      timeRef.current += delta;
+      // Playing backwards stops at t = 0
+      timeRef.current = Math.max(0, timeRef.current + delta * timeScale);
     }
 
     // Dynamic Grid Centering
@@ -585,28 +1391,26 @@ const WaveMesh = ({
     }
     
     uniforms.uTime.value = timeRef.current;
-    uniforms.uGlobalSpeed.value = globalSpeed; 
+    uniforms.uGlobalSpeed.value = medium.speed; 
+    uniforms.uFalloff.value = medium.falloff;
+    uniforms.uAbsorption.value = medium.absorption;
+    writeWallUniforms(uniforms, medium.walls);
+    uniforms.uBarrierCount.value = Math.min(medium.barriers.length, MAX_BARRIERS);
+    medium.barriers.slice(0, MAX_BARRIERS).forEach((b, k) => uniforms.uBarriers.value[k].set(b.x1, b.y1, b.x2, b.y2));
+    writeRegionUniforms(uniforms, medium.regions);
     uniforms.uParamMode.value = paramMode;
+    uniforms.uValueRange.value.set(valueRange[0], valueRange[1]);
+    uniforms.uSolver.value = solver === SolverMode.Numerical && fdtdRef.current.texture ? 1 : 0;
+    uniforms.uFieldState.value = fdtdRef.current.texture;
+    uniforms.uReferenceFrequency.value = fdtdRef.current.omega;
     
     if (appMode === AppMode.Waves) uniforms.uRenderStyle.value = 1;
     else if (appMode === AppMode.Params2D) uniforms.uRenderStyle.value = 2;
     else uniforms.uRenderStyle.value = 0;
     
     const visibleSources = sources.filter(s => s.visible);
-    uniforms.uSourceCount.value = visibleSources.length;
-    
-    const posArray = uniforms.uSourcePos.value as Float32Array;
-    const paramsArray = uniforms.uSourceParams.value as Float32Array;
-    
-    visibleSources.forEach((source, i) => {
-      if (i >= MAX_SOURCES) return;
-      posArray[i * 2] = source.x;
-      posArray[i * 2 + 1] = source.y;
-      
-      paramsArray[i * 3] = source.amplitude;
-      paramsArray[i * 3 + 1] = source.frequency;
-      paramsArray[i * 3 + 2] = source.phase;
-    });
+    uniforms.uSourceCount.value = Math.min(visibleSources.length, MAX_SOURCES);
+    writeSourceTexture(uniforms.uSourceData.value, visibleSources);
   });
 
   return (
@@ -626,13 +1430,28 @@ const WaveMesh = ({
 const SingleSourceArrow: React.FC<{ 
     source: WaveSource, 
     timeRef: React.MutableRefObject<number>,
-    label: string
-}> = ({ source, timeRef, label }) => {
+    label: string,
+    muted: boolean,
+    onDrag: (x: number, y: number) => void
+}> = ({ source, timeRef, label, muted, onDrag }) => {
     const meshRef = useRef<THREE.Group>(null);
     const arrowRef = useRef<THREE.Group>(null);
     const coneRef = useRef<THREE.Mesh>(null);
     const cylRef = useRef<THREE.Mesh>(null);
 
+    const controls = useThree(state => state.controls) as OrbitControlsImpl | null;
+    const [hovered, setHovered] = useState(false);
+    const [dragging, setDragging] = useState(false);
+    useCursor(hovered || dragging, dragging ? 'grabbing' : 'grab');
+
+    const dragTo = (ray: THREE.Ray) => {
+        const hit = ray.intersectPlane(WATER_PLANE, new THREE.Vector3());
+        if (!hit) return;
+        // A moving source is grabbed at its current position, shift its path along
+        const pos = sourcePosition(source, timeRef.current);
+        onDrag(hit.x - (pos.x - source.x), -hit.z - (pos.y - source.y));
+    };
+
     useFrame(() => {
         if (!meshRef.current || !arrowRef.current || !coneRef.current || !cylRef.current) return;
         
@@ -644,9 +1463,10 @@ const SingleSourceArrow: React.FC<{
         }
 
         const t = timeRef.current;
-        const elongation = source.amplitude * Math.sin(source.frequency * t + source.phase);
+        const elongation = sourceElongation(source, t);
 
-        meshRef.current.position.set(source.x, source.y, 0);
+        const pos = sourcePosition(source, t);
+        meshRef.current.position.set(pos.x, pos.y, 0);
 
         const absVal = Math.abs(elongation);
         const isPositive = elongation >= 0;
@@ -655,7 +1475,7 @@ const SingleSourceArrow: React.FC<{
         (coneRef.current.material as THREE.MeshStandardMaterial).color = color;
         (cylRef.current.material as THREE.MeshStandardMaterial).color = color;
 
-        if (absVal < 0.05) {
+        if (absVal < 0.05 || muted) {
             arrowRef.current.visible = false;
         } else {
             arrowRef.current.visible = true;
@@ -677,7 +1497,39 @@ const SingleSourceArrow: React.FC<{
         <group ref={meshRef}>
             <mesh position={[0, 0, 0]} renderOrder={999}>
                 <sphereGeometry args={[0.15, 16, 16]} />
-                <meshStandardMaterial color="white" depthTest={false} transparent={true} />
+                <meshStandardMaterial color={muted ? '#64748b' : 'white'} depthTest={false} transparent={true} />
+            </mesh>
+
+            {/* Larger invisible handle, the visible sphere is hard to hit */}
+            <mesh
+                visible={false}
+                onPointerOver={(e) => {
+                    if (!source.visible) return;
+                    e.stopPropagation();
+                    setHovered(true);
+                }}
+                onPointerOut={() => setHovered(false)}
+                onPointerDown={(e) => {
+                    if (e.button !== 0 || !source.visible) return;
+                    e.stopPropagation();
+                    (e.target as Element).setPointerCapture(e.pointerId);
+                    if (controls) controls.enabled = false;
+                    setDragging(true);
+                }}
+                onPointerMove={(e) => {
+                    if (!dragging) return;
+                    e.stopPropagation();
+                    dragTo(e.ray);
+                }}
+                onPointerUp={(e) => {
+                    if (!dragging) return;
+                    (e.target as Element).releasePointerCapture(e.pointerId);
+                    if (controls) controls.enabled = true;
+                    setDragging(false);
+                }}
+                onClick={(e) => e.stopPropagation()}
+            >
+                <sphereGeometry args={[0.6, 8, 8]} />
             </mesh>
 
             <group ref={arrowRef} rotation={[Math.PI/2, 0, 0]}>
@@ -695,7 +1547,7 @@ const SingleSourceArrow: React.FC<{
                 position={[0.5, 0.5, 0.5]}
                 rotation={[Math.PI / 2, 0, 0]}
                 fontSize={0.5}
-                color="white"
+                color={muted ? '#64748b' : 'white'}
                 anchorX="left"
                 anchorY="bottom"
                 outlineWidth={0.05}
@@ -709,10 +1561,12 @@ const SingleSourceArrow: React.FC<{
     );
 }
 
-const SourceArrows = ({ sources, globalSpeed, timeRef }: { 
+const SourceArrows = ({ sources, mutedIds, globalSpeed, timeRef, onMoveSource }: { 
     sources: WaveSource[], 
+    mutedIds: string[], // left out of the field by the isolation view
     globalSpeed: number, 
-    timeRef: React.MutableRefObject<number> 
+    timeRef: React.MutableRefObject<number>,
+    onMoveSource: (id: string, x: number, y: number) => void
 }) => {
   return (
     <group rotation={[-Math.PI / 2, 0, 0]}>
@@ -722,64 +1576,1068 @@ const SourceArrows = ({ sources, globalSpeed, timeRef }: {
             source={source} 
             timeRef={timeRef}
             label={`E${index + 1}`}
+            muted={mutedIds.includes(source.id)}
+            onDrag={(x, y) => onMoveSource(source.id, x, y)}
         />
       ))}
     </group>
   );
 };
 
-const CameraController = ({ appMode }: { appMode: AppMode }) => {
-  const is2D = appMode === AppMode.Params2D;
+// Invisible plane at y=0 used for picking points on the water surface.
+// Raycasting the dense WaveMesh geometry would be far too expensive.
+const PickPlane = ({ onPick }: { onPick: (x: number, y: number) => void }) => (
+  <mesh
+    rotation={[-Math.PI / 2, 0, 0]}
+    visible={false}
+    onClick={(e) => {
+      // Ignore clicks that ended a camera drag
+      if (e.delta > 4) return;
+      e.stopPropagation();
+      onPick(e.point.x, -e.point.z);
+    }}
+  >
+    <planeGeometry args={[10000, 10000]} />
+  </mesh>
+);
+
+// Invisible plane at y=0 for dragging out a segment
+const SegmentDrawPlane = ({ onDraw, onDrawStart }: { onDraw: (segment: Segment) => void, onDrawStart?: () => void }) => {
+  const startRef = useRef<{ x: number, y: number } | null>(null);
+
   return (
-    <>
-      {is2D ? (
-        <OrthographicCamera makeDefault position={[0, 50, 0]} zoom={15} near={0.1} far={10000} onUpdate={c => c.lookAt(0, 0, 0)} />
-      ) : (
-        <PerspectiveCamera makeDefault position={[0, 30, 40]} fov={45} near={0.1} far={10000} onUpdate={c => c.lookAt(0, 0, 0)} />
-      )}
-      <OrbitControls 
-        makeDefault
-        enableRotate={!is2D} 
-        enableZoom={true} 
-        minZoom={5} 
-        maxZoom={50}
-        minDistance={5}
-        maxDistance={2000}
-        screenSpacePanning={false}
-        maxPolarAngle={Math.PI / 2 - 0.05}
-        target={[0, 0, 0]}
-      />
-    </>
+    <mesh
+      rotation={[-Math.PI / 2, 0, 0]}
+      visible={false}
+      onPointerDown={(e) => {
+        if (e.button !== 0) return;
+        e.stopPropagation();
+        (e.target as Element).setPointerCapture(e.pointerId);
+        startRef.current = { x: e.point.x, y: -e.point.z };
+        if (onDrawStart) onDrawStart();
+      }}
+      onPointerMove={(e) => {
+        const start = startRef.current;
+        if (!start) return;
+        const x2 = e.point.x;
+        const y2 = -e.point.z;
+        // Ignore accidental clicks, keep the previous segment
+        if (Math.hypot(x2 - start.x, y2 - start.y) < 0.1) return;
+        onDraw({ x1: start.x, y1: start.y, x2, y2 });
+      }}
+      onPointerUp={(e) => {
+        startRef.current = null;
+        (e.target as Element).releasePointerCapture(e.pointerId);
+      }}
+    >
+      <planeGeometry args={[10000, 10000]} />
+    </mesh>
   );
 };
 
-const LatexButton = ({ 
-  label, 
-  symbol, 
-  active, 
-  onClick 
-}: { 
-  label: string, 
-  symbol: React.ReactNode, 
-  active: boolean, 
-  onClick: () => void 
-}) => (
-  <button 
-    className={`view-option ${active ? 'active' : ''}`}
-    onClick={onClick}
-    title={label}
-  >
-    <div style={{
-      fontFamily: '"Times New Roman", Times, serif', 
-      fontSize: '1.2rem', 
-      fontStyle: 'italic',
-      fontWeight: 'bold',
-      lineHeight: '1.2rem',
-      height: '24px',
-      display: 'flex',
-      alignItems: 'center'
-    }}>
-      {symbol}
+// Walls as low grey blocks standing on the surface
+const WALL_HEIGHT = 3;
+const WALL_THICKNESS = 0.3;
+
+const WallBlock = ({ segment, color, opacity }: { segment: Segment, color: string, opacity: number }) => {
+  const length = Math.hypot(segment.x2 - segment.x1, segment.y2 - segment.y1);
+  const angle = Math.atan2(segment.y2 - segment.y1, segment.x2 - segment.x1);
+  return (
+    <mesh
+      position={[(segment.x1 + segment.x2) / 2, WALL_HEIGHT / 2 - 1, -(segment.y1 + segment.y2) / 2]}
+      rotation={[0, angle, 0]}
+    >
+      <boxGeometry args={[length, WALL_HEIGHT, WALL_THICKNESS]} />
+      <meshStandardMaterial color={color} transparent={true} opacity={opacity} />
+    </mesh>
+  );
+};
+
+const WallOverlay = ({ walls }: { walls: Wall[] }) => (
+  <group>
+    {walls.map(w => <WallBlock key={w.id} segment={w} color="#94a3b8" opacity={0.3 + 0.6 * w.reflection} />)}
+  </group>
+);
+
+// Barriers are drawn without their openings
+const BarrierOverlay = ({ barriers }: { barriers: Barrier[] }) => (
+  <group>
+    {barriers.map(b => barrierSolidParts(b).map((part, i) => (
+      <WallBlock key={`${b.id}-${i}`} segment={part} color="#1e293b" opacity={0.9} />
+    )))}
+  </group>
+);
+
+// Outline of the speed regions, tinted by their speed relative to the medium
+const RegionOverlay = ({ regions, speed }: { regions: SpeedRegion[], speed: number }) => (
+  <group rotation={[-Math.PI / 2, 0, 0]}>
+    {regions.map(region => (
+      <Line
+        key={region.id}
+        points={[...region.points, region.points[0]].map(p => [p.x, p.y, 0.1] as [number, number, number])}
+        color={region.speed < speed ? '#22d3ee' : '#f472b6'}
+        lineWidth={2}
+        dashed={true}
+        dashSize={0.5}
+        gapSize={0.3}
+        depthTest={false}
+        renderOrder={999}
+      />
+    ))}
+  </group>
+);
+
+const SectionOverlay = ({ section }: { section: Segment }) => (
+  <group rotation={[-Math.PI / 2, 0, 0]}>
+    <Line
+      points={[[section.x1, section.y1, 0.1], [section.x2, section.y2, 0.1]]}
+      color="#facc15"
+      lineWidth={2}
+      depthTest={false}
+      renderOrder={999}
+    />
+    {[[section.x1, section.y1], [section.x2, section.y2]].map(([x, y], i) => (
+      <mesh key={i} position={[x, y, 0.1]} renderOrder={999}>
+        <sphereGeometry args={[0.15, 16, 16]} />
+        <meshBasicMaterial color="#facc15" depthTest={false} transparent={true} />
+      </mesh>
+    ))}
+  </group>
+);
+
+const NODAL_COLOR = '#000000';
+const ANTINODAL_COLOR = '#f97316';
+const HYPERBOLA_COLOR = '#22c55e';
+
+// Order m of a hyperbola as a label, half orders as ½
+const formatOrder = (m: number) => {
+  const whole = Math.floor(Math.abs(m));
+  const half = !Number.isInteger(m);
+  return `m = ${m < 0 ? '−' : ''}${half ? `${whole || ''}½` : whole}`;
+};
+
+// Nodal and antinodal lines of the field, see interference.ts. computed:
+// trace them in the field of fieldSources (analytic solver only), redone every
+// second while playing if the phase differences drift. A coherent pair also gets
+// its theoretical hyperbolas, labelled with their order m.
+const InterferenceOverlay = ({
+  fieldSources,
+  sources,
+  medium,
+  timeRef,
+  isPlaying,
+  computed
+}: {
+  fieldSources: WaveSource[],
+  sources: WaveSource[],
+  medium: Medium,
+  timeRef: React.MutableRefObject<number>,
+  isPlaying: boolean,
+  computed: boolean
+}) => {
+  const grid = useMemo(() => contourGridAround(sources), [sources]);
+  const stationary = useMemo(() => isStationary(sources), [sources]);
+  const [lines, setLines] = useState<InterferenceLines | null>(null);
+
+  useEffect(() => {
+    if (!computed) {
+      setLines(null);
+      return;
+    }
+    const update = () => setLines(interferenceLines(fieldSources, medium, grid, timeRef.current));
+    // Settle first, e.g. while a source is dragged
+    const handler = setTimeout(update, 150);
+    const timer = stationary || !isPlaying ? undefined : setInterval(update, 1000);
+    return () => {
+      clearTimeout(handler);
+      clearInterval(timer);
+    };
+  }, [computed, fieldSources, medium, grid, stationary, isPlaying, timeRef]);
+
+  const hyperbolas = useMemo(() => {
+    const pair = coherentPair(sources);
+    return pair ? interferenceHyperbolas(pair[0], pair[1], medium, grid.cell * (grid.nx - 1) / 2) : [];
+  }, [sources, medium, grid]);
+
+  const lift = (points: Array<[number, number]>) => points.map(([x, y]) => [x, y, 0.12] as [number, number, number]);
+
+  return (
+    <group rotation={[-Math.PI / 2, 0, 0]}>
+      {lines && lines.nodal.length > 0 && (
+        <Line points={lift(lines.nodal)} segments color={NODAL_COLOR} lineWidth={3} depthTest={false} renderOrder={998} />
+      )}
+      {lines && lines.antinodal.length > 0 && (
+        <Line points={lift(lines.antinodal)} segments color={ANTINODAL_COLOR} lineWidth={2.5} depthTest={false} renderOrder={998} />
+      )}
+      {hyperbolas.map(h => (
+        <React.Fragment key={h.order}>
+          <Line
+            points={lift(h.points)}
+            color={HYPERBOLA_COLOR}
+            lineWidth={1.5}
+            dashed
+            dashSize={0.6}
+            gapSize={0.4}
+            depthTest={false}
+            renderOrder={999}
+          />
+          <Text
+            position={[...h.points[h.points.length - 1], 0.2]}
+            fontSize={0.6}
+            color={HYPERBOLA_COLOR}
+            anchorX="center"
+            anchorY="bottom"
+            outlineWidth={0.05}
+            outlineColor="#000000"
+            renderOrder={999}
+          >
+            {formatOrder(h.order)}
+          </Text>
+        </React.Fragment>
+      ))}
+    </group>
+  );
+};
+
+// Arrow glyphs of the wave-vector mode
+const WAVE_VECTOR_COLOR = '#0f172a';
+const WAVE_VECTOR_SAMPLES = 25;
+
+// Arrows along the local wave vector on a grid around the sources, one
+// length for all: the color already shows the wavelength. Redrawn with the
+// field unless it is stationary.
+const WaveVectorArrows = ({
+  sampler,
+  sources,
+  timeRef,
+  isPlaying,
+  stationary
+}: {
+  sampler: FieldSampler,
+  sources: WaveSource[],
+  timeRef: React.MutableRefObject<number>,
+  isPlaying: boolean,
+  stationary: boolean
+}) => {
+  const grid = useMemo(() => contourGridAround(sources, WAVE_VECTOR_SAMPLES), [sources]);
+  const [segments, setSegments] = useState<Array<[number, number, number]>>([]);
+
+  useEffect(() => {
+    const update = () => {
+      const half = 0.35 * grid.cell;
+      const head = 0.3 * half;
+      const points: Array<[number, number, number]> = [];
+      for (let j = 0; j < grid.ny; j++) {
+        for (let i = 0; i < grid.nx; i++) {
+          const x = grid.x0 + i * grid.cell;
+          const y = grid.y0 + j * grid.cell;
+          const { waveVectorX, waveVectorY } = sampler(x, y, timeRef.current);
+          const k = Math.hypot(waveVectorX, waveVectorY);
+          if (k < 1e-6) continue;
+          const ux = waveVectorX / k;
+          const uy = waveVectorY / k;
+          const tip: [number, number, number] = [x + ux * half, y + uy * half, 0.12];
+          points.push([x - ux * half, y - uy * half, 0.12], tip);
+          // Head: two strokes back from the tip at +-30 degrees
+          for (const side of [-1, 1]) {
+            points.push(tip, [
+              tip[0] - head * (ux * 0.866 - side * uy * 0.5),
+              tip[1] - head * (uy * 0.866 + side * ux * 0.5),
+              0.12,
+            ]);
+          }
+        }
+      }
+      setSegments(points);
+    };
+    // Settle first, e.g. while a source is dragged
+    const handler = setTimeout(update, 150);
+    const timer = stationary || !isPlaying ? undefined : setInterval(update, 500);
+    return () => {
+      clearTimeout(handler);
+      clearInterval(timer);
+    };
+  }, [sampler, grid, stationary, isPlaying, timeRef]);
+
+  if (segments.length === 0) return null;
+  return (
+    <group rotation={[-Math.PI / 2, 0, 0]}>
+      <Line points={segments} segments color={WAVE_VECTOR_COLOR} lineWidth={1.5} depthTest={false} renderOrder={997} />
+    </group>
+  );
+};
+
+const SingleProbeMarker: React.FC<{
+    probe: Probe,
+    sampler: FieldSampler,
+    timeRef: React.MutableRefObject<number>,
+    label: string
+}> = ({ probe, sampler, timeRef, label }) => {
+    const groupRef = useRef<THREE.Group>(null);
+
+    useFrame(() => {
+        if (!groupRef.current) return;
+        // Ride on the surface
+        const { elongation } = sampler(probe.x, probe.y, timeRef.current);
+        groupRef.current.position.set(probe.x, probe.y, elongation);
+    });
+
+    return (
+        <group ref={groupRef}>
+            <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, 0, 0.3]} renderOrder={999}>
+                <coneGeometry args={[0.2, 0.6, 16]} />
+                <meshStandardMaterial color="#facc15" depthTest={false} transparent={true} />
+            </mesh>
+            <Text
+                position={[0.4, 0.4, 0.6]}
+                rotation={[Math.PI / 2, 0, 0]}
+                fontSize={0.5}
+                color="#facc15"
+                anchorX="left"
+                anchorY="bottom"
+                outlineWidth={0.05}
+                outlineColor="#000000"
+                renderOrder={999}
+            >
+                {label}
+            </Text>
+        </group>
+    );
+};
+
+const ProbeMarkers = ({ probes, sampler, timeRef }: {
+    probes: Probe[],
+    sampler: FieldSampler,
+    timeRef: React.MutableRefObject<number>
+}) => {
+  return (
+    <group rotation={[-Math.PI / 2, 0, 0]}>
+      {probes.map((probe, index) => (
+        <SingleProbeMarker
+            key={probe.id}
+            probe={probe}
+            sampler={sampler}
+            timeRef={timeRef}
+            label={`P${index + 1}`}
+        />
+      ))}
+    </group>
+  );
+};
+
+const CameraController = ({ appMode, enabled }: { appMode: AppMode, enabled: boolean }) => {
+  const is2D = appMode === AppMode.Params2D;
+  return (
+    <>
+      {is2D ? (
+        <OrthographicCamera makeDefault position={[0, 50, 0]} zoom={15} near={0.1} far={10000} onUpdate={c => c.lookAt(0, 0, 0)} />
+      ) : (
+        <PerspectiveCamera makeDefault position={[0, 30, 40]} fov={45} near={0.1} far={10000} onUpdate={c => c.lookAt(0, 0, 0)} />
+      )}
+      <OrbitControls 
+        makeDefault
+        enabled={enabled}
+        enableRotate={!is2D} 
+        enableZoom={true} 
+        minZoom={5} 
+        maxZoom={50}
+        minDistance={5}
+        maxDistance={2000}
+        screenSpacePanning={false}
+        maxPolarAngle={Math.PI / 2 - 0.05}
+        target={[0, 0, 0]}
+      />
+    </>
+  );
+};
+
+// Reads and writes the camera pose from outside the Canvas.
+// A pending pose is applied once the camera of the target mode is active.
+const CameraPoseBridge = ({
+  apiRef,
+  pendingPose,
+  onApplied
+}: {
+  apiRef: React.MutableRefObject<(() => CameraPose) | null>,
+  pendingPose: { pose: CameraPose, appMode: AppMode } | null,
+  onApplied: () => void
+}) => {
+  const camera = useThree(state => state.camera);
+  const controls = useThree(state => state.controls) as OrbitControlsImpl | null;
+
+  useEffect(() => {
+    apiRef.current = () => {
+      const target = controls?.target ?? new THREE.Vector3();
+      return {
+        position: [camera.position.x, camera.position.y, camera.position.z],
+        target: [target.x, target.y, target.z],
+        zoom: camera.zoom,
+      };
+    };
+    return () => { apiRef.current = null; };
+  }, [apiRef, camera, controls]);
+
+  useEffect(() => {
+    if (!pendingPose || !controls) return;
+    const isOrtho = (camera as THREE.OrthographicCamera).isOrthographicCamera === true;
+    if (isOrtho !== (pendingPose.appMode === AppMode.Params2D)) return;
+
+    const { position, target, zoom } = pendingPose.pose;
+    camera.position.set(...position);
+    camera.zoom = zoom;
+    camera.updateProjectionMatrix();
+    controls.target.set(...target);
+    controls.update();
+    onApplied();
+  }, [pendingPose, camera, controls, onApplied]);
+
+  return null;
+};
+
+// Renders single frames at a given simulation time from outside the Canvas,
+// for recordings. The canvas is returned right after rendering, while its
+// drawing buffer still holds the frame.
+const FrameRenderBridge = ({
+  apiRef,
+  timeRef
+}: {
+  apiRef: React.MutableRefObject<((t: number) => HTMLCanvasElement) | null>,
+  timeRef: React.MutableRefObject<number>
+}) => {
+  const gl = useThree(state => state.gl);
+  const advance = useThree(state => state.advance);
+
+  useEffect(() => {
+    apiRef.current = (t: number) => {
+      timeRef.current = t;
+      advance(performance.now());
+      return gl.domElement;
+    };
+    return () => { apiRef.current = null; };
+  }, [apiRef, timeRef, gl, advance]);
+
+  return null;
+};
+
+// Renders the current view at a higher pixel ratio for still exports. The
+// drawing buffer is enlarged and restored within one task, the page never
+// shows the large frame. Returns a copy, width is clamped to what the GPU
+// supports.
+const StillRenderBridge = ({
+  apiRef
+}: {
+  apiRef: React.MutableRefObject<((width: number) => HTMLCanvasElement) | null>
+}) => {
+  const gl = useThree(state => state.gl);
+  const size = useThree(state => state.size);
+  const dpr = useThree(state => state.viewport.dpr);
+  const setDpr = useThree(state => state.setDpr);
+  const advance = useThree(state => state.advance);
+
+  useEffect(() => {
+    apiRef.current = (width: number) => {
+      const limit = gl.capabilities.maxTextureSize;
+      setDpr(Math.min(width / size.width, limit / size.width, limit / size.height));
+      advance(performance.now());
+      const image = document.createElement('canvas');
+      image.width = gl.domElement.width;
+      image.height = gl.domElement.height;
+      image.getContext('2d')?.drawImage(gl.domElement, 0, 0);
+      setDpr(dpr);
+      advance(performance.now());
+      return image;
+    };
+    return () => { apiRef.current = null; };
+  }, [apiRef, gl, size, dpr, setDpr, advance]);
+
+  return null;
+};
+
+const FALLOFF_OPTIONS: Array<{ value: Falloff, label: string, title: string }> = [
+  { value: Falloff.None, label: 'keine', title: 'Keine geometrische Abnahme' },
+  { value: Falloff.Cylindrical, label: '1/√r', title: 'Kreiswellen auf der Oberfläche' },
+  { value: Falloff.Spherical, label: '1/r', title: 'Kugelwellen' },
+];
+
+const SOLVER_OPTIONS: Array<{ value: SolverMode, label: string, title: string }> = [
+  { value: SolverMode.Analytic, label: 'Analytisch', title: 'Geschlossene Summe der Kreiswellen aller Erreger' },
+  {
+    value: SolverMode.Numerical,
+    label: 'Numerisch (FDTD)',
+    title: `Finite-Differenzen-Lösung der Wellengleichung auf ${FDTD_GRID_SIZE * FDTD_CELL_SIZE} m × ${FDTD_GRID_SIZE * FDTD_CELL_SIZE} m. Wände reflektieren vollständig, die Phasendifferenz ist nicht verfügbar.`,
+  },
+];
+
+const MOTION_OPTIONS: Array<{ value: MotionPath, label: string, title: string }> = [
+  { value: MotionPath.Static, label: 'Ruhend', title: 'Der Erreger bleibt an seiner Position' },
+  { value: MotionPath.Linear, label: 'Gerade', title: 'Gleichförmige Bewegung auf einer Geraden, schneller als c entsteht ein Machscher Kegel' },
+  { value: MotionPath.Circular, label: 'Kreis', title: 'Gleichförmige Kreisbewegung um die eingestellte Position, nur langsamer als c' },
+];
+
+// Motion of a source that is switched from resting to moving
+const DEFAULT_MOTION: SourceMotion = { path: MotionPath.Static, speed: 2, direction: 0, radius: 5 };
+
+// null: endless sine without a switch-on time
+const SIGNAL_OPTIONS: Array<{ value: Waveform | null, label: string, title: string }> = [
+  { value: null, label: 'Dauer', title: 'Sinuswelle seit t = −∞, die ganze Fläche ist von Anfang an gefüllt' },
+  { value: Waveform.Sine, label: 'Sinus', title: 'Sinuswelle zwischen Start- und Stoppzeit, die Wellenfront breitet sich mit c aus' },
+  { value: Waveform.Pulse, label: 'Puls', title: 'Einzelner Gaußpuls ohne Trägerwelle' },
+  { value: Waveform.Packet, label: 'Paket', title: 'Wellenpaket: Sinuswelle unter einer gaußförmigen Einhüllenden' },
+];
+
+// Signal of a source that gets a switch-on time
+const DEFAULT_EMISSION: SourceEmission = { waveform: Waveform.Sine, start: 0, stop: Infinity, width: 1 };
+
+// Range of the start and stop sliders (s), the top of the stop slider means never
+const EMISSION_TIME_LIMIT = 60;
+
+const SHAPE_OPTIONS: Array<{ value: WaveShape, label: string, title: string }> = [
+  { value: WaveShape.Sine, label: 'Sinus', title: 'Reine Sinusschwingung' },
+  { value: WaveShape.Square, label: '⊓', title: 'Rechteck: ungerade Harmonische mit 1/n' },
+  { value: WaveShape.Triangle, label: '△', title: 'Dreieck: ungerade Harmonische mit 1/n²' },
+  { value: WaveShape.Sawtooth, label: '⩘', title: 'Sägezahn: alle Harmonischen mit 1/n' },
+  { value: WaveShape.Custom, label: 'Eigene', title: 'Summe frei wählbarer Harmonischer' },
+];
+
+// Shape of a source that is switched away from a sine
+const DEFAULT_SHAPE: SourceShape = { kind: WaveShape.Sine, terms: 5, harmonics: [1, 0.5, 0.25] };
+
+const DISPERSION_OPTIONS: Array<{ value: Dispersion, label: string, title: string }> = [
+  { value: Dispersion.None, label: 'ω = c·k', title: 'Keine Dispersion: alle Frequenzen laufen mit c' },
+  { value: Dispersion.DeepWater, label: 'ω² = g·k', title: 'Schwerewellen auf tiefem Wasser: c = g/ω, Wellengruppen laufen mit c/2' },
+];
+
+const COLORMAP_OPTIONS: Array<{ value: Colormap, label: string, title: string }> = [
+  { value: Colormap.Standard, label: 'Standard', title: 'Rot–Weiß–Blau, Weiß–Blau für die Amplitude, Farbkreis für die Phase' },
+  { value: Colormap.Viridis, label: 'Viridis', title: 'Wahrnehmungsgleichmäßig, farbenblind-tauglich, auch in Graustufen lesbar' },
+  { value: Colormap.Cividis, label: 'Cividis', title: 'Für Rot-Grün-Sehschwäche optimiert' },
+  { value: Colormap.Inferno, label: 'Inferno', title: 'Wahrnehmungsgleichmäßig, farbenblind-tauglich, kontrastreich auf dem Beamer' },
+  { value: Colormap.Diverging, label: 'Rot–Blau', title: 'Divergierend (ColorBrewer RdBu), Null in Weiß' },
+  { value: Colormap.PurpleOrange, label: 'Orange–Lila', title: 'Divergierend (ColorBrewer PuOr), farbenblind-tauglich, Null in Weiß' },
+  { value: Colormap.Grayscale, label: 'Graustufen', title: 'Schwarz bis Weiß, für Schwarz-Weiß-Druck' },
+];
+
+// CSS gradient of a color map, e.g. for the legend bar
+const colormapGradient = (colormap: Colormap, mode: ParamMode) =>
+  `linear-gradient(90deg, ${colormapStops(colormap, mode).map(s => `${s.color} ${(s.offset * 100).toFixed(1)}%`).join(', ')})`;
+
+// Samples per side of the grid the auto range is taken from
+const AUTO_RANGE_SAMPLES = 41;
+
+const ARRAY_LAYOUT_LABELS = ['Linie', 'Kreis', 'Gitter'];
+
+// Dialog for generating a linear, circular or grid array of sources
+const ArrayGeneratorDialog = ({
+  maxCount,
+  onCreate,
+  onClose
+}: {
+  maxCount: number,
+  onCreate: (group: SourceGroup) => void,
+  onClose: () => void
+}) => {
+  const [layout, setLayout] = useState<ArrayLayout>(ArrayLayout.Linear);
+  const [count, setCount] = useState(8);
+  const [rows, setRows] = useState(3);
+  const [spacing, setSpacing] = useState(1.0);
+  const [phaseStep, setPhaseStep] = useState(0.0);
+  const [amplitude, setAmplitude] = useState(0.5);
+  const [frequency, setFrequency] = useState(DEFAULT_SOURCE_PARAMS.frequency);
+
+  const total = layout === ArrayLayout.Grid ? count * rows : count;
+  const tooMany = total > maxCount;
+
+  const numberField = (label: string, value: number, setValue: (v: number) => void, min: number, step: number) => (
+    <div className="control-group">
+      <label>
+        {label}
+        <input
+          type="number"
+          min={min}
+          step={step}
+          value={value}
+          onChange={(e) => {
+            const v = parseFloat(e.target.value);
+            if (Number.isFinite(v)) setValue(Math.max(min, v));
+          }}
+        />
+      </label>
+    </div>
+  );
+
+  return (
+    <div className="dialog-backdrop" onClick={onClose}>
+      <div className="dialog" onClick={(e) => e.stopPropagation()}>
+        <div className="card-header">
+          <span className="card-title">Array erzeugen</span>
+          <button className="btn-icon" onClick={onClose} title="Schließen">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="view-selector">
+          {ARRAY_LAYOUT_LABELS.map((label, value) => (
+            <button
+              key={value}
+              className={`view-option ${layout === value ? 'active' : ''}`}
+              onClick={() => setLayout(value)}
+            >
+              <span>{label}</span>
+            </button>
+          ))}
+        </div>
+
+        {numberField(layout === ArrayLayout.Grid ? 'Spalten' : 'Anzahl', count, v => setCount(Math.round(v)), 1, 1)}
+        {layout === ArrayLayout.Grid && numberField('Zeilen', rows, v => setRows(Math.round(v)), 1, 1)}
+        {numberField(layout === ArrayLayout.Circular ? 'Radius r (m)' : 'Abstand d (m)', spacing, setSpacing, 0.1, 0.1)}
+        {numberField('Phasenschritt Δφ (rad)', phaseStep, setPhaseStep, -Math.PI * 2, 0.05)}
+        {numberField('Amplitude (m)', amplitude, setAmplitude, 0, 0.1)}
+        {numberField('Frequenz ω (rad/s)', frequency, setFrequency, 0.1, 0.1)}
+
+        <button
+          className="btn"
+          style={{ width: '100%', marginTop: 8 }}
+          disabled={tooMany}
+          onClick={() => onCreate({
+            id: Math.random().toString(36).substr(2, 9),
+            layout,
+            count,
+            rows: layout === ArrayLayout.Grid ? rows : 1,
+            spacing,
+            phaseStep,
+            x: 0,
+            y: 0,
+            rotation: 0,
+            amplitude,
+            frequency,
+          })}
+        >
+          {tooMany ? `Zu viele Erreger (max. ${maxCount})` : `${total} Erreger erzeugen`}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const RECORDING_FORMAT_OPTIONS: Array<{ value: RecordingFormat, label: string, title: string }> = [
+  { value: RecordingFormat.WebM, label: 'WebM', title: 'Video (VP9 oder VP8), klein und in voller Auflösung' },
+  { value: RecordingFormat.Gif, label: 'GIF', title: 'Animiertes GIF mit 256 Farben je Bild, höchstens 480 px breit' },
+];
+
+const RECORDING_LENGTH_OPTIONS: Array<{ value: RecordingLength, label: string, title: string }> = [
+  { value: RecordingLength.Seconds, label: 'Sekunden', title: 'Feste Dauer in Simulationszeit' },
+  { value: RecordingLength.Periods, label: 'Perioden', title: 'Ganze Perioden des langsamsten Erregers' },
+  { value: RecordingLength.Loop, label: 'Schleife', title: 'Gemeinsame Periode aller Erreger: das Ende geht nahtlos in den Anfang über, sobald sich das Feld eingeschwungen hat' },
+];
+
+// Frame rates per format, GIF delays are whole centiseconds
+const RECORDING_FPS: Record<RecordingFormat, number[]> = {
+  [RecordingFormat.WebM]: [25, 30, 50, 60],
+  [RecordingFormat.Gif]: [10, 20, 25, 50],
+};
+
+const RECORDING_MAX_WIDTH: Record<RecordingFormat, number> = {
+  [RecordingFormat.WebM]: 1920,
+  [RecordingFormat.Gif]: 480,
+};
+
+// Dialog for recording the simulation as a video or GIF, progress is null
+// while no recording runs
+const RecordDialog = ({
+  sources,
+  progress,
+  onStart,
+  onCancel,
+  onClose
+}: {
+  sources: WaveSource[],
+  progress: number | null,
+  onStart: (options: RecordingOptions) => void,
+  onCancel: () => void,
+  onClose: () => void
+}) => {
+  const [format, setFormat] = useState<RecordingFormat>(supportsWebm() ? RecordingFormat.WebM : RecordingFormat.Gif);
+  const [fps, setFps] = useState(25);
+  const [lengthMode, setLengthMode] = useState<RecordingLength>(RecordingLength.Seconds);
+  const [seconds, setSeconds] = useState(5);
+  const [periods, setPeriods] = useState(2);
+
+  const period = slowestPeriod(sources);
+  const loop = useMemo(() => loopDuration(sources), [sources]);
+  const duration = lengthMode === RecordingLength.Seconds ? seconds
+    : lengthMode === RecordingLength.Periods ? (period === null ? null : periods * period)
+    : loop;
+  const recording = progress !== null;
+
+  const selectFormat = (value: RecordingFormat) => {
+    setFormat(value);
+    if (!RECORDING_FPS[value].includes(fps)) setFps(RECORDING_FPS[value][0]);
+  };
+
+  const choice = <T,>(options: Array<{ value: T, label: string, title: string }>, value: T, setValue: (v: T) => void, disabled?: (v: T) => boolean) => (
+    <div className="view-selector">
+      {options.map(option => (
+        <button
+          key={option.label}
+          className={`view-option ${value === option.value ? 'active' : ''}`}
+          style={{ minHeight: 0 }}
+          title={option.title}
+          disabled={recording || disabled?.(option.value)}
+          onClick={() => setValue(option.value)}
+        >
+          <span>{option.label}</span>
+        </button>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="dialog-backdrop" onClick={recording ? undefined : onClose}>
+      <div className="dialog" onClick={(e) => e.stopPropagation()}>
+        <div className="card-header">
+          <span className="card-title">Aufnahme</span>
+          <button className="btn-icon" onClick={onClose} disabled={recording} title="Schließen">
+            <X size={16} />
+          </button>
+        </div>
+
+        {choice(RECORDING_FORMAT_OPTIONS, format, selectFormat, v => v === RecordingFormat.WebM && !supportsWebm())}
+        {choice(RECORDING_FPS[format].map(v => ({ value: v, label: `${v} fps`, title: `${v} Bilder pro Sekunde Simulationszeit` })), fps, setFps)}
+        {choice(RECORDING_LENGTH_OPTIONS, lengthMode, setLengthMode)}
+
+        {lengthMode === RecordingLength.Seconds && (
+          <div className="control-group">
+            <label>
+              Dauer (s)
+              <input
+                type="number"
+                min={1}
+                max={MAX_LOOP_DURATION}
+                step={1}
+                value={seconds}
+                disabled={recording}
+                onChange={(e) => {
+                  const v = parseFloat(e.target.value);
+                  if (Number.isFinite(v)) setSeconds(Math.min(MAX_LOOP_DURATION, Math.max(1, v)));
+                }}
+              />
+            </label>
+          </div>
+        )}
+        {lengthMode === RecordingLength.Periods && (
+          <div className="control-group">
+            <label>
+              Perioden T
+              <input
+                type="number"
+                min={1}
+                max={20}
+                step={1}
+                value={periods}
+                disabled={recording}
+                onChange={(e) => {
+                  const v = parseInt(e.target.value, 10);
+                  if (Number.isFinite(v)) setPeriods(Math.min(20, Math.max(1, v)));
+                }}
+              />
+            </label>
+          </div>
+        )}
+
+        <div style={{ fontSize: '0.75rem', color: '#94a3b8', marginTop: 8 }}>
+          {duration === null
+            ? (lengthMode === RecordingLength.Loop
+              ? `Die Szene wiederholt sich nicht innerhalb von ${MAX_LOOP_DURATION} s: Bewegung auf einer Geraden, Schaltzeiten oder unpassende Frequenzen.`
+              : 'Keine sichtbaren Erreger.')
+            : `${duration.toFixed(2)} s Simulationszeit, ${Math.max(1, Math.round(duration * fps))} Bilder`}
+        </div>
+
+        {recording ? (
+          <>
+            <div className="progress">
+              <div className="progress-fill" style={{ width: `${Math.round(progress * 100)}%` }} />
+            </div>
+            <button className="btn btn-secondary" style={{ width: '100%', marginTop: 8 }} onClick={onCancel}>
+              Abbrechen
+            </button>
+          </>
+        ) : (
+          <button
+            className="btn"
+            style={{ width: '100%', marginTop: 8 }}
+            disabled={duration === null}
+            onClick={() => onStart({ format, fps, duration, maxWidth: RECORDING_MAX_WIDTH[format] })}
+          >
+            Aufnahme starten
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const APP_MODE_LABELS: Record<AppMode, string> = {
+  [AppMode.Waves]: 'Wellen',
+  [AppMode.Params3D]: 'Params 3D',
+  [AppMode.Params2D]: 'Params 2D',
+};
+
+// Sources listed with their values in the caption of an exported image
+const STILL_CAPTION_SOURCES = 12;
+
+const STILL_WIDTHS: Array<{ value: number, label: string, title: string }> = [
+  { value: 1920, label: 'Full HD', title: '1920 px breit' },
+  { value: 2560, label: 'QHD', title: '2560 px breit' },
+  { value: 3840, label: '4K', title: '3840 px breit' },
+  { value: 7680, label: '8K', title: '7680 px breit, sofern die Grafikkarte so große Bilder erlaubt' },
+];
+
+// Dialog for exporting the view as a PNG and the color legend as SVG.
+// onExportLegend is null in the water view, which has no color legend.
+const StillExportDialog = ({
+  onExportPng,
+  onExportLegend,
+  onClose
+}: {
+  onExportPng: (width: number, caption: boolean) => void,
+  onExportLegend: (() => void) | null,
+  onClose: () => void
+}) => {
+  const [width, setWidth] = useState(3840);
+  const [caption, setCaption] = useState(true);
+
+  return (
+    <div className="dialog-backdrop" onClick={onClose}>
+      <div className="dialog" onClick={(e) => e.stopPropagation()}>
+        <div className="card-header">
+          <span className="card-title">Bild exportieren</span>
+          <button className="btn-icon" onClick={onClose} title="Schließen">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="view-selector">
+          {STILL_WIDTHS.map(option => (
+            <button
+              key={option.value}
+              className={`view-option ${width === option.value ? 'active' : ''}`}
+              style={{ minHeight: 0 }}
+              title={option.title}
+              onClick={() => setWidth(option.value)}
+            >
+              <span>{option.label}</span>
+            </button>
+          ))}
+        </div>
+        <div style={{ fontSize: '0.75rem', color: '#94a3b8', marginBottom: 8 }}>
+          Die Höhe folgt dem Seitenverhältnis der Ansicht.
+        </div>
+
+        <label style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: '0.85rem' }}>
+          <input type="checkbox" checked={caption} onChange={() => setCaption(!caption)} />
+          Legende und Erregerwerte einblenden
+        </label>
+
+        <button className="btn" style={{ width: '100%', marginTop: 12 }} onClick={() => onExportPng(width, caption)}>
+          PNG speichern
+        </button>
+        <button
+          className="btn btn-secondary"
+          style={{ width: '100%', marginTop: 8 }}
+          disabled={!onExportLegend}
+          title={onExportLegend ? 'Farblegende als Vektorgrafik' : 'Nur in den Parameteransichten'}
+          onClick={() => onExportLegend?.()}
+        >
+          Legende als SVG
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const EXPORT_FORMAT_OPTIONS: Array<{ value: ExportFormat, label: string, title: string }> = [
+  { value: ExportFormat.Csv, label: 'CSV', title: 'Tabelle mit einer Zeile je Zeitpunkt und Gitterpunkt: t, x, y und eine Spalte je Größe' },
+  { value: ExportFormat.Npy, label: 'NPY', title: 'NumPy-Array (float32) der Form (Zeitpunkte, Größen, ny, nx)' },
+  { value: ExportFormat.Heightmap, label: 'PNG 16 bit', title: 'Graustufen-Höhenkarte einer Größe zu einem Zeitpunkt, Wertebereich in den Textfeldern min/max' },
+];
+
+// Every parameter mode, in the order of the enum
+const ALL_PARAM_MODES = Object.values(ParamMode).filter((m): m is ParamMode => typeof m === 'number');
+
+interface DataExportOptions {
+  format: ExportFormat;
+  allModes: boolean; // all quantities instead of the current one
+  grid: ExportGrid;
+  steps: number;     // time steps from the current time on
+  dt: number;        // s between them
+}
+
+// Dialog for exporting sampled field data, progress is null while no
+// export runs. Time series need the analytic solver, the numerical one only
+// holds the current state.
+const DataExportDialog = ({
+  paramMode,
+  numerical,
+  progress,
+  onStart,
+  onCancel,
+  onClose
+}: {
+  paramMode: ParamMode,
+  numerical: boolean,
+  progress: number | null,
+  onStart: (options: DataExportOptions) => void,
+  onCancel: () => void,
+  onClose: () => void
+}) => {
+  const [format, setFormat] = useState<ExportFormat>(ExportFormat.Csv);
+  const [allModes, setAllModes] = useState(false);
+  const [grid, setGrid] = useState<ExportGrid>({ x0: -16, x1: 16, y0: -16, y1: 16, nx: 161, ny: 161 });
+  const [steps, setSteps] = useState(1);
+  const [dt, setDt] = useState(0.1);
+
+  const single = format === ExportFormat.Heightmap;
+  const modeCount = allModes && !single ? ALL_PARAM_MODES.length : 1;
+  const stepCount = single || numerical ? 1 : steps;
+  const total = grid.nx * grid.ny * modeCount * stepCount;
+  const tooMany = total > MAX_EXPORT_VALUES;
+  const exporting = progress !== null;
+
+  const numberField = (label: string, value: number, setValue: (v: number) => void, min: number, max: number, step: number) => (
+    <div className="control-group">
+      <label>
+        {label}
+        <input
+          type="number"
+          min={min}
+          max={max}
+          step={step}
+          value={value}
+          disabled={exporting}
+          onChange={(e) => {
+            const v = parseFloat(e.target.value);
+            if (Number.isFinite(v)) setValue(Math.min(max, Math.max(min, v)));
+          }}
+        />
+      </label>
+    </div>
+  );
+
+  return (
+    <div className="dialog-backdrop" onClick={exporting ? undefined : onClose}>
+      <div className="dialog" onClick={(e) => e.stopPropagation()}>
+        <div className="card-header">
+          <span className="card-title">Felddaten exportieren</span>
+          <button className="btn-icon" onClick={onClose} disabled={exporting} title="Schließen">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="view-selector">
+          {EXPORT_FORMAT_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              className={`view-option ${format === option.value ? 'active' : ''}`}
+              style={{ minHeight: 0 }}
+              title={option.title}
+              disabled={exporting}
+              onClick={() => setFormat(option.value)}
+            >
+              <span>{option.label}</span>
+            </button>
+          ))}
+        </div>
+
+        <div className="view-selector">
+          <button
+            className={`view-option ${!allModes || single ? 'active' : ''}`}
+            style={{ minHeight: 0 }}
+            disabled={exporting}
+            onClick={() => setAllModes(false)}
+          >
+            <span>{PARAM_MODE_LABELS[paramMode]}</span>
+          </button>
+          <button
+            className={`view-option ${allModes && !single ? 'active' : ''}`}
+            style={{ minHeight: 0 }}
+            disabled={exporting || single}
+            title={single ? 'Eine Höhenkarte enthält nur eine Größe' : 's, v/ω, a/ω², s_max, Δφ, I, ⟨w⟩/ρ, s_eff und λ'}
+            onClick={() => setAllModes(true)}
+          >
+            <span>Alle Größen</span>
+          </button>
+        </div>
+
+        {numberField('x von (m)', grid.x0, v => setGrid({ ...grid, x0: v }), -100, grid.x1 - 0.1, 0.5)}
+        {numberField('x bis (m)', grid.x1, v => setGrid({ ...grid, x1: v }), grid.x0 + 0.1, 100, 0.5)}
+        {numberField('y von (m)', grid.y0, v => setGrid({ ...grid, y0: v }), -100, grid.y1 - 0.1, 0.5)}
+        {numberField('y bis (m)', grid.y1, v => setGrid({ ...grid, y1: v }), grid.y0 + 0.1, 100, 0.5)}
+        {numberField('Punkte in x', grid.nx, v => setGrid({ ...grid, nx: Math.round(v) }), 2, 2048, 1)}
+        {numberField('Punkte in y', grid.ny, v => setGrid({ ...grid, ny: Math.round(v) }), 2, 2048, 1)}
+        {!single && !numerical && (
+          <>
+            {numberField('Zeitschritte', steps, v => setSteps(Math.round(v)), 1, 1000, 1)}
+            {steps > 1 && numberField('Δt (s)', dt, setDt, 0.001, 10, 0.01)}
+          </>
+        )}
+
+        <div style={{ fontSize: '0.75rem', color: '#94a3b8', marginTop: 8 }}>
+          {tooMany
+            ? `Zu viele Werte (${total.toLocaleString('de-DE')}, max. ${MAX_EXPORT_VALUES.toLocaleString('de-DE')}).`
+            : `${total.toLocaleString('de-DE')} Werte ab der aktuellen Zeit${numerical && !single ? ', numerisch nur der aktuelle Zustand' : ''}.`}
+        </div>
+
+        {exporting ? (
+          <>
+            <div className="progress">
+              <div className="progress-fill" style={{ width: `${Math.round(progress * 100)}%` }} />
+            </div>
+            <button className="btn btn-secondary" style={{ width: '100%', marginTop: 8 }} onClick={onCancel}>
+              Abbrechen
+            </button>
+          </>
+        ) : (
+          <button
+            className="btn"
+            style={{ width: '100%', marginTop: 8 }}
+            disabled={tooMany}
+            onClick={() => onStart({ format, allModes: allModes && !single, grid, steps: stepCount, dt })}
+          >
+            Exportieren
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const LatexButton = ({ 
+  label, 
+  symbol, 
+  active, 
+  onClick 
+}: { 
+  label: string, 
+  symbol: React.ReactNode, 
+  active: boolean, 
+  onClick: () => void 
+}) => (
+  <button 
+    className={`view-option ${active ? 'active' : ''}`}
+    onClick={onClick}
+    title={label}
+  >
+    <div style={{
+      fontFamily: '"Times New Roman", Times, serif', 
+      fontSize: '1.2rem', 
+      fontStyle: 'italic',
+      fontWeight: 'bold',
+      lineHeight: '1.2rem',
+      height: '24px',
+      display: 'flex',
+      alignItems: 'center'
+    }}>
+      {symbol}
     </div>
     <span style={{
       fontSize: '0.6rem',
@@ -790,15 +2648,592 @@ const LatexButton = ({
   </button>
 );
 
+// Match the backing store of a sidebar chart to its displayed size and clear it
+const prepareChartCanvas = (canvas: HTMLCanvasElement) => {
+  const dpr = window.devicePixelRatio || 1;
+  const width = canvas.clientWidth;
+  const height = canvas.clientHeight;
+  if (canvas.width !== Math.round(width * dpr) || canvas.height !== Math.round(height * dpr)) {
+    canvas.width = Math.round(width * dpr);
+    canvas.height = Math.round(height * dpr);
+  }
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+  ctx.clearRect(0, 0, width, height);
+  return { ctx, width, height };
+};
+
+interface ProbeRecord {
+  t: number;
+  s: number;
+  v: number;
+  a: number;
+}
+
+// The field engine scales velocity by 1/ω and acceleration by 1/ω² so that
+// all three share the amplitude as their scale
+const PROBE_CHART_SERIES: Array<{ key: 's' | 'v' | 'a', label: string, color: string }> = [
+  { key: 's', label: 's(t)', color: '#3b82f6' },
+  { key: 'v', label: 'v(t)/ω', color: '#22c55e' },
+  { key: 'a', label: 'a(t)/ω²', color: '#f97316' },
+];
+
+// Scrolling s(t), v(t)/ω, a(t)/ω² chart recorded at a probe position
+const ProbeChart = ({
+  probe,
+  sampler,
+  timeRef
+}: {
+  probe: Probe,
+  sampler: FieldSampler,
+  timeRef: React.MutableRefObject<number>
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const recordsRef = useRef<ProbeRecord[]>([]);
+
+  // The animation loop reads the latest field inputs through a ref
+  const samplerRef = useRef(sampler);
+  samplerRef.current = sampler;
+
+  useEffect(() => {
+    recordsRef.current = [];
+    let frame = 0;
+
+    const draw = () => {
+      frame = requestAnimationFrame(draw);
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+
+      const t = timeRef.current;
+      const records = recordsRef.current;
+
+      // Time went back (reset, scrubbing, playing backwards): forget what lies ahead
+      while (records.length > 0 && records[records.length - 1].t > t) {
+        records.pop();
+      }
+      const last = records[records.length - 1];
+      if (!last || t !== last.t) {
+        const sample = samplerRef.current(probe.x, probe.y, t);
+        records.push({ t, s: sample.elongation, v: sample.velocity, a: sample.acceleration });
+      }
+      while (records.length > 0 && records[0].t < t - PROBE_HISTORY_SECONDS) {
+        records.shift();
+      }
+
+      const chart = prepareChartCanvas(canvas);
+      if (!chart) return;
+      const { ctx, width, height } = chart;
+
+      let maxAbs = 0.5;
+      for (const r of records) {
+        maxAbs = Math.max(maxAbs, Math.abs(r.s), Math.abs(r.v), Math.abs(r.a));
+      }
+
+      const toX = (rt: number) => (1 - (t - rt) / PROBE_HISTORY_SECONDS) * width;
+      const toY = (val: number) => height / 2 - (val / maxAbs) * (height / 2 - 4);
+
+      // Zero line
+      ctx.strokeStyle = 'rgba(255,255,255,0.2)';
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.moveTo(0, height / 2);
+      ctx.lineTo(width, height / 2);
+      ctx.stroke();
+
+      ctx.fillStyle = '#64748b';
+      ctx.font = '10px sans-serif';
+      ctx.fillText(`±${maxAbs.toFixed(2)}`, 4, 10);
+
+      ctx.lineWidth = 1.5;
+      for (const series of PROBE_CHART_SERIES) {
+        ctx.strokeStyle = series.color;
+        ctx.beginPath();
+        records.forEach((r, i) => {
+          if (i === 0) ctx.moveTo(toX(r.t), toY(r[series.key]));
+          else ctx.lineTo(toX(r.t), toY(r[series.key]));
+        });
+        ctx.stroke();
+      }
+    };
+
+    frame = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frame);
+  }, [probe.x, probe.y, timeRef]);
+
+  return (
+    <canvas ref={canvasRef} className="chart-canvas" />
+  );
+};
+
+// Profile of the current parameter along the cross-section line
+const SectionPlot = ({
+  section,
+  sampler,
+  paramMode,
+  timeRef
+}: {
+  section: Segment,
+  sampler: FieldSampler,
+  paramMode: ParamMode,
+  timeRef: React.MutableRefObject<number>
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  // The animation loop reads the latest field inputs through a ref
+  const fieldRef = useRef({ sampler, paramMode, section });
+  fieldRef.current = { sampler, paramMode, section };
+
+  useEffect(() => {
+    let frame = 0;
+
+    const draw = () => {
+      frame = requestAnimationFrame(draw);
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+
+      const chart = prepareChartCanvas(canvas);
+      if (!chart) return;
+      const { ctx, width, height } = chart;
+
+      const { sampler, paramMode, section } = fieldRef.current;
+      const points = sampleProfile(paramMode, sampler, section, timeRef.current, SECTION_SAMPLES);
+      const values = points.map(p => p.value);
+      const length = points[points.length - 1].d;
+
+      let min: number;
+      let max: number;
+      if (paramMode === ParamMode.Phase) {
+        min = -Math.PI;
+        max = Math.PI;
+      } else {
+        const maxAbs = Math.max(0.5, ...values.map(Math.abs));
+        min = isNonNegativeMode(paramMode) ? 0 : -maxAbs;
+        max = maxAbs;
+      }
+
+      const padTop = 14;
+      const padBottom = 14;
+      const toX = (d: number) => length > 0 ? (d / length) * width : 0;
+      const toY = (val: number) => padTop + (1 - (val - min) / (max - min)) * (height - padTop - padBottom);
+
+      // Zero line
+      ctx.strokeStyle = 'rgba(255,255,255,0.2)';
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.moveTo(0, toY(Math.max(min, 0)));
+      ctx.lineTo(width, toY(Math.max(min, 0)));
+      ctx.stroke();
+
+      ctx.strokeStyle = '#818cf8';
+      ctx.lineWidth = 1.5;
+      ctx.beginPath();
+      points.forEach((p, i) => {
+        if (i === 0) ctx.moveTo(toX(p.d), toY(p.value));
+        else ctx.lineTo(toX(p.d), toY(p.value));
+      });
+      ctx.stroke();
+
+      // Maxima (blue, pointing up) and minima (red, pointing down)
+      const extrema = findExtrema(values);
+      for (const e of extrema) {
+        const x = toX(points[e.index].d);
+        const y = toY(points[e.index].value);
+        const dir = e.kind === 'max' ? -1 : 1;
+        ctx.fillStyle = e.kind === 'max' ? '#3b82f6' : '#ef4444';
+        ctx.beginPath();
+        ctx.moveTo(x, y + dir * 3);
+        ctx.lineTo(x - 4, y + dir * 10);
+        ctx.lineTo(x + 4, y + dir * 10);
+        ctx.closePath();
+        ctx.fill();
+      }
+
+      ctx.fillStyle = '#64748b';
+      ctx.font = '10px sans-serif';
+      ctx.textAlign = 'left';
+      ctx.fillText('0 m', 2, height - 3);
+      ctx.textAlign = 'right';
+      ctx.fillText(`${length.toFixed(1)} m`, width - 2, height - 3);
+
+      // Mean spacing between neighbouring maxima
+      const maxima = extrema.filter(e => e.kind === 'max').map(e => points[e.index].d);
+      if (maxima.length >= 2) {
+        const spacing = (maxima[maxima.length - 1] - maxima[0]) / (maxima.length - 1);
+        ctx.fillText(`Δd(max) ≈ ${spacing.toFixed(2)} m`, width - 2, 10);
+      }
+      ctx.textAlign = 'left';
+    };
+
+    frame = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frame);
+  }, [timeRef]);
+
+  return (
+    <canvas ref={canvasRef} className="chart-canvas" style={{ height: 120 }} />
+  );
+};
+
+// Time scale slider, logarithmic between the limits
+const MIN_TIME_SCALE = 0.01;
+const MAX_TIME_SCALE = 4;
+const TIME_SCALE_STEPS = 1000;
+const timeScaleFromSlider = (position: number) =>
+  MIN_TIME_SCALE * (MAX_TIME_SCALE / MIN_TIME_SCALE) ** (position / TIME_SCALE_STEPS);
+const sliderFromTimeScale = (scale: number) =>
+  Math.round(TIME_SCALE_STEPS * Math.log(Math.abs(scale) / MIN_TIME_SCALE) / Math.log(MAX_TIME_SCALE / MIN_TIME_SCALE));
+const formatTimeScale = (scale: number) => `${scale < 0 ? '−' : ''}${Number(Math.abs(scale).toPrecision(2))}×`;
+
+// Single steps as fractions 1/n of the period
+const STEP_FRACTIONS = [8, 16, 32, 64];
+
+// The scrubber spans at least this, extended in whole spans as t grows
+const SCRUB_MIN_SECONDS = 20;
+const SCRUB_MIN_PERIODS = 10;
+
+// Time scale, scrubber and single steps. The time is read from timeRef a
+// few times per second; period and phase are those of the slowest visible
+// source. Backwards and jumps need the analytic solver: the numerical one
+// starts over from a calm surface whenever the time goes back and skips
+// ahead without integrating when it falls behind by more than maxStep.
+const TimeControls = ({
+  timeRef,
+  sources,
+  timeScale,
+  onTimeScale,
+  reversible,
+  maxStep,
+  onPause
+}: {
+  timeRef: React.MutableRefObject<number>,
+  sources: WaveSource[],
+  timeScale: number,
+  onTimeScale: (scale: number) => void,
+  reversible: boolean,
+  maxStep: number,
+  onPause: () => void
+}) => {
+  const [time, setTime] = useState(timeRef.current);
+  const [stepFraction, setStepFraction] = useState(16);
+
+  useEffect(() => {
+    let frame = 0;
+    let last = 0;
+    const poll = (now: number) => {
+      frame = requestAnimationFrame(poll);
+      if (now - last < 50) return;
+      last = now;
+      setTime(timeRef.current);
+    };
+    frame = requestAnimationFrame(poll);
+    return () => cancelAnimationFrame(frame);
+  }, [timeRef]);
+
+  const reference = sources
+    .filter(s => s.visible)
+    .reduce<WaveSource | null>((slowest, s) => !slowest || s.frequency < slowest.frequency ? s : slowest, null);
+  const period = reference ? 2 * Math.PI / Math.max(reference.frequency, 1e-6) : 1;
+  const phase = reference ? ((reference.frequency * time + reference.phase) % (2 * Math.PI) + 2 * Math.PI) % (2 * Math.PI) : 0;
+  const span = Math.max(SCRUB_MIN_SECONDS, SCRUB_MIN_PERIODS * period);
+  const scrubMax = Math.max(span, Math.ceil(time / span) * span);
+
+  const jump = (t: number) => {
+    timeRef.current = Math.max(0, t);
+    setTime(timeRef.current);
+  };
+
+  const step = (direction: number) => {
+    onPause();
+    jump(timeRef.current + direction * period / stepFraction);
+  };
+  const stepTooLarge = period / stepFraction > maxStep;
+
+  return (
+    <div className="time-controls">
+      <div className="control-group">
+        <label>Zeit <span>t = {time.toFixed(3)} s</span></label>
+        <input
+          type="range"
+          min={0}
+          max={scrubMax}
+          step={scrubMax / 1000}
+          value={Math.min(time, scrubMax)}
+          onChange={(e) => jump(parseFloat(e.target.value))}
+          disabled={!reversible}
+          title={reversible ? undefined : 'Springen nur mit dem analytischen Löser'}
+        />
+      </div>
+      {reference && (
+        <div className="legend-label" style={{ marginBottom: 8 }}>
+          <span>E{sources.indexOf(reference) + 1}: ωt + Δφ = {phase.toFixed(2)} rad ({(phase * 180 / Math.PI).toFixed(0)}°)</span>
+          <span>t/T = {(time / period).toFixed(3)}</span>
+        </div>
+      )}
+      <div className="control-group">
+        <label>Zeitlupe / Zeitraffer <span>{formatTimeScale(timeScale)}</span></label>
+        <div className="row" style={{ gap: 6, alignItems: 'center' }}>
+          <button
+            className={`btn ${timeScale < 0 ? '' : 'btn-secondary'}`}
+            style={{ padding: '4px 6px' }}
+            disabled={!reversible && timeScale > 0}
+            onClick={() => onTimeScale(-timeScale)}
+            title={reversible ? 'Rückwärts abspielen' : 'Rückwärts nur mit dem analytischen Löser'}
+          >
+            <Rewind size={14} />
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={TIME_SCALE_STEPS}
+            value={sliderFromTimeScale(timeScale)}
+            onChange={(e) => onTimeScale(Math.sign(timeScale) * timeScaleFromSlider(parseFloat(e.target.value)))}
+            onDoubleClick={() => onTimeScale(Math.sign(timeScale))}
+            title="Doppelklick: Echtzeit"
+          />
+        </div>
+      </div>
+      <div className="row" style={{ gap: 6, alignItems: 'center' }}>
+        <button
+          className="btn btn-secondary"
+          style={{ padding: '4px 8px' }}
+          onClick={() => step(-1)}
+          disabled={!reversible}
+          title={reversible ? `Um T/${stepFraction} zurück` : 'Zurück nur mit dem analytischen Löser'}
+        >
+          <StepBack size={14} />
+        </button>
+        <div className="view-selector" style={{ flex: 1, marginBottom: 0 }}>
+          {STEP_FRACTIONS.map(n => (
+            <button
+              key={n}
+              className={`view-option ${stepFraction === n ? 'active' : ''}`}
+              style={{ minHeight: 0 }}
+              onClick={() => setStepFraction(n)}
+              title={`Schrittweite T/${n} = ${(period / n).toFixed(3)} s`}
+            >
+              <span>T/{n}</span>
+            </button>
+          ))}
+        </div>
+        <button
+          className="btn btn-secondary"
+          style={{ padding: '4px 8px' }}
+          onClick={() => step(1)}
+          disabled={stepTooLarge}
+          title={stepTooLarge ? `Der numerische Löser rechnet höchstens ${maxStep.toFixed(3)} s auf einmal, kleinere Schrittweite wählen` : `Um T/${stepFraction} vor`}
+        >
+          <StepForward size={14} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const ISOLATION_OPTIONS: Array<{ value: Isolation, label: string, title: string }> = [
+  { value: Isolation.Off, label: 'Alle', title: 'Überlagerung aller sichtbaren Erreger' },
+  { value: Isolation.Only, label: 'Nur Eₖ', title: 'Feld eines einzelnen Erregers' },
+  { value: Isolation.Without, label: 'Ohne Eₖ', title: 'Überlagerung ohne den Beitrag eines Erregers' },
+];
+
+const isolationCaption = (isolation: Isolation, label: string) =>
+  isolation === Isolation.Only ? `nur ${label}` : `ohne ${label}`;
+
+// Small multiples of the single contributions
+const SOURCE_TILE_SAMPLES = 48;
+const MAX_SOURCE_TILES = 12;
+
+// One tile per visible source with the analytic field of that source alone
+// (including its barrier openings), in the colors and range of the main
+// view. Clicking a tile isolates the source.
+const SourceTiles = ({
+  sources,
+  medium,
+  paramMode,
+  colormap,
+  valueRange,
+  timeRef,
+  isPlaying,
+  selectedId,
+  onSelect
+}: {
+  sources: WaveSource[],
+  medium: Medium,
+  paramMode: ParamMode,
+  colormap: Colormap,
+  valueRange: ValueRange,
+  timeRef: React.MutableRefObject<number>,
+  isPlaying: boolean,
+  selectedId: string | null,
+  onSelect: (id: string) => void
+}) => {
+  const canvasRefs = useRef<Array<HTMLCanvasElement | null>>([]);
+  const tiles = useMemo(() => sources
+    .map((s, index) => ({ s, label: `E${index + 1}` }))
+    .filter(({ s }) => s.visible)
+    .slice(0, MAX_SOURCE_TILES)
+    .map(tile => ({ ...tile, field: withBarrierSources(expandHarmonics([tile.s]), medium) })),
+    [sources, medium]);
+  const grid = useMemo(() => contourGridAround(sources, SOURCE_TILE_SAMPLES), [sources]);
+  const table = useMemo(() => colormapTable(colormap, paramMode), [colormap, paramMode]);
+
+  useEffect(() => {
+    const draw = () => {
+      const [min, max] = valueRange;
+      tiles.forEach(({ field }, k) => {
+        const ctx = canvasRefs.current[k]?.getContext('2d');
+        if (!ctx) return;
+        const image = ctx.createImageData(grid.nx, grid.ny);
+        for (let j = 0; j < grid.ny; j++) {
+          for (let i = 0; i < grid.nx; i++) {
+            const sample = sampleField(field, medium, grid.x0 + i * grid.cell, grid.y0 + j * grid.cell, timeRef.current);
+            const t = Math.min(1, Math.max(0, (paramValue(sample, paramMode) - min) / (max - min)));
+            const entry = Math.round(t * (table.length / 4 - 1)) * 4;
+            // Top row is the largest y, as seen from above
+            image.data.set(table.subarray(entry, entry + 4), ((grid.ny - 1 - j) * grid.nx + i) * 4);
+          }
+        }
+        ctx.putImageData(image, 0, 0);
+      });
+    };
+    const handler = setTimeout(draw, 150);
+    const timer = isPlaying ? setInterval(draw, 400) : undefined;
+    return () => {
+      clearTimeout(handler);
+      clearInterval(timer);
+    };
+  }, [tiles, grid, table, valueRange, paramMode, medium, isPlaying, timeRef]);
+
+  return (
+    <div className="source-tiles">
+      {tiles.map(({ s, label }, k) => (
+        <button
+          key={s.id}
+          className={`source-tile ${s.id === selectedId ? 'active' : ''}`}
+          onClick={() => onSelect(s.id)}
+          title={`Nur ${label} anzeigen`}
+        >
+          <canvas ref={el => { canvasRefs.current[k] = el; }} width={grid.nx} height={grid.ny} />
+          <span>{label}</span>
+        </button>
+      ))}
+    </div>
+  );
+};
+
+// Default slit geometry for new barriers
+const DEFAULT_SLIT_WIDTH = 1.0;
+const DEFAULT_SLIT_DISTANCE = 4.0;
+
+// Openings of a single (count = 1) or double slit, centered on the barrier.
+// `distance` is measured between the slit centers.
+const slitOpenings = (barrier: Segment, count: number, width: number, distance: number): BarrierOpening[] => {
+  const center = Math.hypot(barrier.x2 - barrier.x1, barrier.y2 - barrier.y1) / 2;
+  if (count === 1) return [{ offset: center, width }];
+  return [{ offset: center - distance / 2, width }, { offset: center + distance / 2, width }];
+};
+
+// Inverse of slitOpenings() for the barrier cards
+const slitGeometry = (barrier: Barrier) => ({
+  count: barrier.openings.length,
+  width: barrier.openings[0]?.width ?? DEFAULT_SLIT_WIDTH,
+  distance: barrier.openings.length > 1 ? barrier.openings[1].offset - barrier.openings[0].offset : DEFAULT_SLIT_DISTANCE,
+});
+
+// Visible sources beyond the shader slots are left out, so that the sampled
+// field (probes, exports, lines) is the rendered one
+const withinSourceSlots = (sources: WaveSource[]): WaveSource[] => {
+  let visible = 0;
+  return sources.filter(s => !s.visible || ++visible <= MAX_SOURCES);
+};
+
+// Huygens sources of the barrier openings added to the (harmonic) sources,
+// within the shader slots left
+const withBarrierSources = (harmonics: WaveSource[], medium: Medium): WaveSource[] => {
+  if (medium.barriers.length === 0) return harmonics;
+  const free = MAX_SOURCES - harmonics.filter(s => s.visible).length;
+  return [...harmonics, ...barrierSources(harmonics, medium, free)];
+};
+
+// Sources as simulated in an isolation view, hidden ones stay hidden
+const isolateSources = (sources: WaveSource[], isolation: Isolation, id: string | null): WaveSource[] => {
+  if (isolation === Isolation.Off || id === null) return sources;
+  return sources.map(s => ({ ...s, visible: s.visible && (s.id === id) === (isolation === Isolation.Only) }));
+};
+
+// Offer a blob as a file download
+const downloadBlob = (blob: Blob, name: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
 const App = () => {
   const [globalSpeed, setGlobalSpeed] = useState(5.0);
+  const [falloff, setFalloff] = useState<Falloff>(Falloff.None);
+  const [absorption, setAbsorption] = useState(0);
+  const [walls, setWalls] = useState<Wall[]>([]);
+  const [barriers, setBarriers] = useState<Barrier[]>([]);
+  const [regions, setRegions] = useState<SpeedRegion[]>([]);
+  const medium = useMemo<Medium>(
+    () => ({ speed: globalSpeed, falloff, absorption, walls, barriers, regions }),
+    [globalSpeed, falloff, absorption, walls, barriers, regions]
+  );
   const [geometrySpeed, setGeometrySpeed] = useState(5.0); 
 
   const [sources, setSources] = useState<WaveSource[]>([
     { ...DEFAULT_SOURCE_PARAMS, id: '1', x: -5, y: 0, visible: true },
     { ...DEFAULT_SOURCE_PARAMS, id: '2', x: 5, y: 0, visible: true }
   ]);
+  // Non-sine sources as their harmonics, plus the Huygens sources of the
+  // barrier openings. Neither are editable, they share the shader slots
+  // with the visible sources.
+  const [isolation, setIsolation] = useState<Isolation>(Isolation.Off);
+  const [isolatedId, setIsolatedId] = useState<string | null>(null);
+  const [showSourceTiles, setShowSourceTiles] = useState(false);
+  // The isolated source, the first visible one if it was hidden or removed
+  const isolated = sources.find(s => s.id === isolatedId && s.visible) ?? sources.find(s => s.visible) ?? null;
+  const simulatedSources = useMemo(
+    () => isolateSources(sources, isolation, isolated?.id ?? null),
+    [sources, isolation, isolated?.id]
+  );
+  const expanded = useMemo(() => expandHarmonics(simulatedSources), [simulatedSources]);
+  // Shader slots the harmonics ask for, more than MAX_SOURCES are dropped
+  const requestedSlots = expanded.filter(s => s.visible).length;
+  const harmonics = useMemo(() => withinSourceSlots(expanded), [expanded]);
+  const fieldSources = useMemo(() => withBarrierSources(harmonics, medium), [harmonics, medium]);
+  const [probes, setProbes] = useState<Probe[]>([]);
+
+  // Analytic superposition or numerical solver, both feed the same views
+  const [solver, setSolver] = useState<SolverMode>(SolverMode.Analytic);
+  const fdtdRef = useRef<FdtdOutput>({ texture: null, data: null, omega: 1 });
+  const sampler = useMemo<FieldSampler>(() => solver === SolverMode.Numerical
+    ? (x, y) => sampleFdtd(fdtdRef.current.data, medium, fdtdRef.current.omega, x, y)
+    : (x, y, t) => sampleField(fieldSources, medium, x, y, t),
+    [solver, fieldSources, medium]);
+  const [section, setSection] = useState<Segment | null>(null);
+  const [tool, setTool] = useState<Tool>(Tool.Orbit);
+  const [showInterference, setShowInterference] = useState(false);
+  const [colormap, setColormap] = useState<Colormap>(Colormap.Standard);
+  const [autoScale, setAutoScale] = useState(false);
+  const [manualRanges, setManualRanges] = useState<Record<ParamMode, ValueRange>>(DEFAULT_RANGES);
+  const [fittedRange, setFittedRange] = useState<ValueRange | null>(null);
+  const [snapToGrid, setSnapToGrid] = useState(false);
+  const [activePreset, setActivePreset] = useState<ScenePreset | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [expandedSourceId, setExpandedSourceId] = useState<string | null>(null);
+  const [groups, setGroups] = useState<SourceGroup[]>([]);
+  const [arrayDialogOpen, setArrayDialogOpen] = useState(false);
+  const [recordDialogOpen, setRecordDialogOpen] = useState(false);
+  const [recordProgress, setRecordProgress] = useState<number | null>(null);
+  const [stillDialogOpen, setStillDialogOpen] = useState(false);
+  const [dataDialogOpen, setDataDialogOpen] = useState(false);
+  const [dataProgress, setDataProgress] = useState<number | null>(null);
   const [isPlaying, setIsPlaying] = useState(true);
+  const [timeScale, setTimeScale] = useState(1);
   const [sidebarOpen, setSidebarOpen] = useState(true);
   
   const [appMode, setAppMode] = useState<AppMode>(AppMode.Waves);
@@ -813,20 +3248,87 @@ const App = () => {
     return () => clearTimeout(handler);
   }, [globalSpeed]);
 
+  // Value range of the data colors: fixed for the phase, else fitted to the
+  // field around the sources (refreshed twice a second) or set by hand
+  const valueRange: ValueRange = hasFixedRange(paramMode) ? DEFAULT_RANGES[paramMode]
+    : autoScale && fittedRange ? fittedRange
+    : manualRanges[paramMode];
+
+  useEffect(() => {
+    setFittedRange(null);
+    if (!autoScale || appMode === AppMode.Waves || hasFixedRange(paramMode)) return;
+    const grid = contourGridAround(sources, AUTO_RANGE_SAMPLES);
+    const fit = () => {
+      const values: number[] = [];
+      for (let j = 0; j < grid.ny; j++) {
+        for (let i = 0; i < grid.nx; i++) {
+          values.push(paramValue(sampler(grid.x0 + i * grid.cell, grid.y0 + j * grid.cell, timeRef.current), paramMode));
+        }
+      }
+      const next = autoRange(paramMode, values);
+      // Keep the legend steady unless the range really changed
+      setFittedRange(prev => prev && Math.abs(next[1] - prev[1]) < 0.02 * Math.abs(prev[1]) ? prev : next);
+    };
+    fit();
+    const timer = setInterval(fit, 500);
+    return () => clearInterval(timer);
+  }, [autoScale, appMode, paramMode, sampler, sources]);
+
+  // The numerical solver cannot run backwards
+  useEffect(() => {
+    if (solver === SolverMode.Numerical && timeScale < 0) setTimeScale(-timeScale);
+  }, [solver, timeScale]);
+
+  // The section tool only exists in the 2D view
+  useEffect(() => {
+    if (appMode !== AppMode.Params2D && tool === Tool.Section) setTool(Tool.Orbit);
+  }, [appMode, tool]);
+
+  // Error banner, e.g. when a link or scene file could not be loaded
+  const [notice, setNotice] = useState<{ message: string, details?: string[] } | null>(null);
+  // Keeps a broken hash in the address bar until the user changes something
+  const keepHashRef = useRef(false);
+
+  const applyState = (data: AppState) => {
+    if (Array.isArray(data.sources)) {
+      // Protobuf decodes a missing group as '', a missing motion or shape
+      // with defaults and a missing emission as null
+      setSources(data.sources.slice(0, MAX_SOURCES).map((s: any) => ({
+        ...DEFAULT_SOURCE_PARAMS,
+        ...s,
+        groupId: s.groupId || undefined,
+        motion: s.motion && s.motion.path !== MotionPath.Static ? s.motion : undefined,
+        emission: s.emission || undefined,
+        shape: s.shape && s.shape.kind !== WaveShape.Sine ? s.shape : undefined,
+        dispersion: s.dispersion || undefined,
+      })));
+    }
+    setGroups(Array.isArray(data.groups) ? data.groups : []);
+    if (Array.isArray(data.probes)) setProbes(data.probes);
+    setSection(data.section ?? null);
+    setWalls(Array.isArray(data.walls) ? data.walls.slice(0, MAX_WALLS) : []);
+    setBarriers(Array.isArray(data.barriers) ? data.barriers.slice(0, MAX_BARRIERS) : []);
+    setRegions(Array.isArray(data.regions) ? data.regions.slice(0, MAX_SPEED_REGIONS) : []);
+    setSolver(data.solver === SolverMode.Numerical ? SolverMode.Numerical : SolverMode.Analytic);
+    if (typeof data.globalSpeed === 'number') setGlobalSpeed(data.globalSpeed);
+    setFalloff(Object.values(Falloff).includes(data.falloff) ? data.falloff : Falloff.None);
+    setAbsorption(typeof data.absorption === 'number' ? data.absorption : 0);
+    if (Object.values(AppMode).includes(data.appMode)) setAppMode(data.appMode as AppMode);
+    if (Object.values(ParamMode).includes(data.paramMode)) setParamMode(data.paramMode as ParamMode);
+  };
+
   // Load state from URL hash (base64) on first mount
   useEffect(() => {
     try {
       const raw = window.location.hash.slice(1);
       if (!raw) return;
-      const data = decodeState(raw);
-      if (!data) return;
-
-      if (Array.isArray(data.sources)) {
-        setSources(data.sources.map((s: any) => ({ ...DEFAULT_SOURCE_PARAMS, ...s })));
+      const result = decodeState(raw);
+      if (result.ok === false) {
+        setNotice({ message: `Der Link konnte nicht geladen werden (${result.error}). Es werden die Standardwerte angezeigt.` });
+        keepHashRef.current = true;
+        return;
       }
-      if (typeof data.globalSpeed === 'number') setGlobalSpeed(data.globalSpeed);
-      if (data.appMode && Object.values(AppMode).includes(data.appMode)) setAppMode(data.appMode as AppMode);
-      if (typeof data.paramMode === 'number') setParamMode(data.paramMode);
+      applyState(result.state);
     } catch (e) {
       // ignore malformed hash
     }
@@ -834,7 +3336,11 @@ const App = () => {
 
   // Persist selected pieces of state to URL hash (debounced)
   useEffect(() => {
-    const payload = { sources, globalSpeed, appMode, paramMode };
+    if (keepHashRef.current) {
+      keepHashRef.current = false;
+      return;
+    }
+    const payload = { sources, groups, probes, section, walls, barriers, regions, solver, globalSpeed, falloff, absorption, appMode, paramMode };
     const b64 = encodeState(payload);
     const timer = setTimeout(() => {
       const newHash = b64 ? `#${b64}` : '';
@@ -844,7 +3350,7 @@ const App = () => {
       }
     }, 250);
     return () => clearTimeout(timer);
-  }, [sources, globalSpeed, appMode, paramMode]);
+  }, [sources, groups, probes, section, walls, barriers, regions, solver, globalSpeed, falloff, absorption, appMode, paramMode]);
 
   const addSource = () => {
     if (sources.length >= MAX_SOURCES) return;
@@ -856,14 +3362,211 @@ const App = () => {
     setSources(sources.filter(s => s.id !== id));
   };
 
+  // Drop selections of sources that no longer exist
+  useEffect(() => {
+    setSelectedIds(prev => {
+      const next = prev.filter(id => sources.some(s => s.id === id));
+      return next.length === prev.length ? prev : next;
+    });
+  }, [sources]);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(selectedIds.includes(id) ? selectedIds.filter(i => i !== id) : [...selectedIds, id]);
+  };
+
+  const updateSelectedSources = (updates: Partial<WaveSource>) => {
+    setSources(sources.map(s => selectedIds.includes(s.id) ? { ...s, ...updates } : s));
+  };
+
+  const removeSelectedSources = () => {
+    setSources(sources.filter(s => !selectedIds.includes(s.id)));
+  };
+
   const toggleSourceVisibility = (id: string) => {
     setSources(sources.map(s => s.id === id ? { ...s, visible: !s.visible } : s));
   };
 
+  const showAllSources = () => {
+    setSources(sources.map(s => s.visible ? s : { ...s, visible: true }));
+  };
+
+  // Step the isolated source through the visible ones
+  const cycleIsolated = (step: number) => {
+    const visible = sources.filter(s => s.visible);
+    if (!isolated || visible.length === 0) return;
+    const index = visible.indexOf(isolated);
+    setIsolatedId(visible[(index + step + visible.length) % visible.length].id);
+  };
+
+  const isolateSource = (id: string) => {
+    setIsolatedId(id);
+    if (isolation === Isolation.Off) setIsolation(Isolation.Only);
+  };
+
   const updateSource = (id: string, updates: Partial<WaveSource>) => {
     setSources(sources.map(s => s.id === id ? { ...s, ...updates } : s));
   };
 
+  const updateEmission = (source: WaveSource, updates: Partial<SourceEmission> | null) => {
+    updateSource(source.id, { emission: updates ? { ...DEFAULT_EMISSION, ...source.emission, ...updates } : undefined });
+  };
+
+  const updateShape = (source: WaveSource, updates: Partial<SourceShape>) => {
+    const shape = { ...DEFAULT_SHAPE, ...source.shape, ...updates };
+    // Custom harmonics grow with the number of terms
+    shape.harmonics = Array.from({ length: shape.terms }, (_, i) => shape.harmonics[i] ?? 0);
+    updateSource(source.id, { shape: shape.kind === WaveShape.Sine ? undefined : shape });
+  };
+
+  const updateMotion = (source: WaveSource, updates: Partial<SourceMotion>) => {
+    const motion = { ...DEFAULT_MOTION, ...source.motion, ...updates };
+    updateSource(source.id, { motion: motion.path === MotionPath.Static ? undefined : motion });
+  };
+
+  const moveSource = (id: string, x: number, y: number) => {
+    const place = (v: number) => {
+      const snapped = snapToGrid ? Math.round(v / SNAP_GRID) * SNAP_GRID : v;
+      return Math.max(-SOURCE_POSITION_LIMIT, Math.min(SOURCE_POSITION_LIMIT, snapped));
+    };
+    const source = sources.find(s => s.id === id);
+    const group = source?.groupId && groups.find(g => g.id === source.groupId);
+    if (source && group) {
+      // Dragging a member moves the whole group
+      updateGroup(group.id, { x: group.x + place(x) - source.x, y: group.y + place(y) - source.y });
+      return;
+    }
+    setSources(prev => prev.map(s => s.id === id ? { ...s, x: place(x), y: place(y) } : s));
+  };
+
+  const createGroup = (group: SourceGroup) => {
+    setGroups([...groups, group]);
+    setSources([...sources, ...generateArraySources(group)]);
+    setArrayDialogOpen(false);
+  };
+
+  const updateGroup = (id: string, updates: Partial<SourceGroup>) => {
+    const group = groups.find(g => g.id === id);
+    if (!group) return;
+    const updated = { ...group, ...updates };
+    setGroups(groups.map(g => g.id === id ? updated : g));
+    setSources(regenerateGroup(sources, updated));
+  };
+
+  const removeGroup = (id: string) => {
+    setGroups(groups.filter(g => g.id !== id));
+    setSources(sources.filter(s => s.groupId !== id));
+  };
+
+  // Keep the sources, forget how they were generated
+  const ungroup = (id: string) => {
+    setGroups(groups.filter(g => g.id !== id));
+    setSources(sources.map(s => s.groupId === id ? { ...s, groupId: undefined } : s));
+  };
+
+  // Drop groups whose members were all deleted
+  useEffect(() => {
+    setGroups(prev => {
+      const next = prev.filter(g => sources.some(s => s.groupId === g.id));
+      return next.length === prev.length ? prev : next;
+    });
+  }, [sources]);
+
+  const addProbe = (x: number, y: number) => {
+    const newId = Math.random().toString(36).substr(2, 9);
+    setProbes([...probes, { id: newId, x, y }]);
+  };
+
+  const removeProbe = (id: string) => {
+    setProbes(probes.filter(p => p.id !== id));
+  };
+
+  // Every drag with the wall tool creates one new wall, updated while dragging
+  const drawingWallIdRef = useRef<string | null>(null);
+
+  const startWall = () => {
+    drawingWallIdRef.current = walls.length < MAX_WALLS ? Math.random().toString(36).substr(2, 9) : null;
+  };
+
+  const drawWall = (segment: Segment) => {
+    const id = drawingWallIdRef.current;
+    if (!id) return;
+    setWalls(prev => prev.some(w => w.id === id)
+      ? prev.map(w => w.id === id ? { ...w, ...segment } : w)
+      : [...prev, { id, ...segment, reflection: 1.0, phaseFlip: false }]);
+  };
+
+  const updateWall = (id: string, params: Partial<Wall>) => {
+    setWalls(walls.map(w => w.id === id ? { ...w, ...params } : w));
+  };
+
+  const removeWall = (id: string) => {
+    setWalls(walls.filter(w => w.id !== id));
+  };
+
+  const drawingBarrierIdRef = useRef<string | null>(null);
+
+  const startBarrier = () => {
+    drawingBarrierIdRef.current = barriers.length < MAX_BARRIERS ? Math.random().toString(36).substr(2, 9) : null;
+  };
+
+  // The slits stay centered while the barrier is dragged out
+  const drawBarrier = (segment: Segment) => {
+    const id = drawingBarrierIdRef.current;
+    if (!id) return;
+    setBarriers(prev => {
+      const existing = prev.find(b => b.id === id);
+      const { count, width, distance } = existing ? slitGeometry(existing) : { count: 2, width: DEFAULT_SLIT_WIDTH, distance: DEFAULT_SLIT_DISTANCE };
+      const barrier = { id, ...segment, openings: slitOpenings(segment, count, width, distance) };
+      return existing ? prev.map(b => b.id === id ? barrier : b) : [...prev, barrier];
+    });
+  };
+
+  const updateSlits = (id: string, params: Partial<ReturnType<typeof slitGeometry>>) => {
+    setBarriers(barriers.map(b => {
+      if (b.id !== id) return b;
+      const { count, width, distance } = { ...slitGeometry(b), ...params };
+      return { ...b, openings: slitOpenings(b, count, width, distance) };
+    }));
+  };
+
+  const removeBarrier = (id: string) => {
+    setBarriers(barriers.filter(b => b.id !== id));
+  };
+
+  // Speed regions are drawn as axis-aligned rectangles from corner to corner
+  const drawingRegionIdRef = useRef<string | null>(null);
+
+  const startRegion = () => {
+    drawingRegionIdRef.current = regions.length < MAX_SPEED_REGIONS ? Math.random().toString(36).substr(2, 9) : null;
+  };
+
+  const drawRegion = (segment: Segment) => {
+    const id = drawingRegionIdRef.current;
+    if (!id) return;
+    const points = [
+      { x: segment.x1, y: segment.y1 },
+      { x: segment.x2, y: segment.y1 },
+      { x: segment.x2, y: segment.y2 },
+      { x: segment.x1, y: segment.y2 },
+    ];
+    // Rectangles with zero width or height are not valid regions
+    if (!isConvexPolygon(points)) return;
+    // The analytic rays do not refract (see travelTime()), the first zone
+    // switches to the numerical solver
+    if (regions.length === 0) setSolver(SolverMode.Numerical);
+    setRegions(prev => prev.some(r => r.id === id)
+      ? prev.map(r => r.id === id ? { ...r, points } : r)
+      : [...prev, { id, points, speed: Math.max(1, globalSpeed / 2) }]);
+  };
+
+  const updateRegion = (id: string, params: Partial<SpeedRegion>) => {
+    setRegions(regions.map(r => r.id === id ? { ...r, ...params } : r));
+  };
+
+  const removeRegion = (id: string) => {
+    setRegions(regions.filter(r => r.id !== id));
+  };
+
   const resetTime = () => {
     timeRef.current = 0;
   };
@@ -876,9 +3579,11 @@ const App = () => {
       amplitude: 0.5 + Math.random() * 2.5,
       frequency: 0.5 + Math.random() * 4.5,
       phase: Math.random() * Math.PI * 2,
-      visible: true
+      visible: true,
+      groupId: undefined
     }));
     setSources(newSources);
+    setGroups([]);
   };
 
   const resetSourcesToStandard = () => {
@@ -892,47 +3597,279 @@ const App = () => {
         ...DEFAULT_SOURCE_PARAMS,
         x: xPos,
         y: 0,
-        visible: true
+        visible: true,
+        groupId: undefined
       };
     });
     setSources(newSources);
+    setGroups([]);
     setGlobalSpeed(5.0);
   };
 
+  const getCameraPoseRef = useRef<(() => CameraPose) | null>(null);
+  const [pendingCameraPose, setPendingCameraPose] = useState<{ pose: CameraPose, appMode: AppMode } | null>(null);
+  const clearPendingCameraPose = useCallback(() => setPendingCameraPose(null), []);
+  const sceneInputRef = useRef<HTMLInputElement>(null);
+
+  const saveScene = () => {
+    const camera = getCameraPoseRef.current ? getCameraPoseRef.current() : null;
+    const json = exportScene({ ...convertState({ sources, groups, probes, section, walls, barriers, regions, solver, globalSpeed, falloff, absorption, appMode, paramMode }), camera });
+    downloadBlob(new Blob([json], { type: 'application/json' }), 'szene.json');
+  };
+
+  const renderStillRef = useRef<((width: number) => HTMLCanvasElement) | null>(null);
+
+  const stillCaption = (): StillCaption => {
+    let mode = appMode === AppMode.Waves ? APP_MODE_LABELS[appMode] : `${APP_MODE_LABELS[appMode]} · ${PARAM_MODE_LABELS[paramMode]}`;
+    if (isolation !== Isolation.Off && isolated) mode += ` · ${isolationCaption(isolation, `E${sources.indexOf(isolated) + 1}`)}`;
+    const visible = simulatedSources.map((s, index) => ({ s, label: `E${index + 1}` })).filter(({ s }) => s.visible);
+    const lines = visible.slice(0, STILL_CAPTION_SOURCES).map(({ s, label }) =>
+      `${label.padEnd(4)} x = ${s.x.toFixed(1)} m  y = ${s.y.toFixed(1)} m  s_max = ${s.amplitude.toFixed(2)} m  ω = ${s.frequency.toFixed(2)} rad/s  Δφ = ${s.phase.toFixed(2)} rad`);
+    if (visible.length > STILL_CAPTION_SOURCES) lines.push(`… und ${visible.length - STILL_CAPTION_SOURCES} weitere Erreger`);
+    return {
+      title: `${mode} · t = ${timeRef.current.toFixed(2)} s · c = ${globalSpeed.toFixed(1)} m/s`,
+      lines,
+      legend: appMode === AppMode.Waves ? null : paramLegend(paramMode, colormap, valueRange),
+    };
+  };
+
+  const exportPng = (width: number, caption: boolean) => {
+    if (!renderStillRef.current) return;
+    const image = renderStillRef.current(width);
+    const still = caption ? composeStill(image, stillCaption()) : image;
+    still.toBlob(blob => {
+      if (blob) downloadBlob(blob, 'wellen.png');
+      else setNotice({ message: 'Das Bild konnte nicht erzeugt werden.' });
+    }, 'image/png');
+    setStillDialogOpen(false);
+  };
+
+  const exportLegend = () => {
+    downloadBlob(new Blob([legendSvg(paramLegend(paramMode, colormap, valueRange))], { type: 'image/svg+xml' }), 'legende.svg');
+  };
+
+  const dataAbortRef = useRef<AbortController | null>(null);
+
+  const exportData = async (options: DataExportOptions) => {
+    const controller = new AbortController();
+    dataAbortRef.current = controller;
+    setDataProgress(0);
+    try {
+      const start = timeRef.current;
+      const times = Array.from({ length: options.steps }, (_, k) => start + k * options.dt);
+      const modes = options.allModes
+        ? ALL_PARAM_MODES
+        : [paramMode];
+      const data = await sampleFieldData(sampler, options.grid, times, modes, setDataProgress, controller.signal);
+      if (options.format === ExportFormat.Csv) {
+        downloadBlob(fieldCsv(data), 'wellen.csv');
+      } else if (options.format === ExportFormat.Npy) {
+        downloadBlob(new Blob([fieldNpy(data)], { type: 'application/octet-stream' }), 'wellen.npy');
+      } else {
+        downloadBlob(await fieldHeightmap(data), 'wellen_hoehenkarte.png');
+      }
+      setDataDialogOpen(false);
+    } catch (e) {
+      if (!controller.signal.aborted) setNotice({ message: `Der Export ist fehlgeschlagen (${e instanceof Error ? e.message : e}).` });
+    } finally {
+      dataAbortRef.current = null;
+      setDataProgress(null);
+    }
+  };
+
+  const renderFrameRef = useRef<((t: number) => HTMLCanvasElement) | null>(null);
+  const recordAbortRef = useRef<AbortController | null>(null);
+
+  const startRecording = async (options: RecordingOptions) => {
+    if (!renderFrameRef.current) return;
+    const controller = new AbortController();
+    recordAbortRef.current = controller;
+    setRecordProgress(0);
+    try {
+      // Frames step timeRef themselves, the live view continues from the last one
+      const blob = await recordAnimation(t => renderFrameRef.current!(t), timeRef.current, options, setRecordProgress, controller.signal);
+      downloadBlob(blob, options.format === RecordingFormat.Gif ? 'wellen.gif' : 'wellen.webm');
+      setRecordDialogOpen(false);
+    } catch (e) {
+      if (!controller.signal.aborted) setNotice({ message: `Die Aufnahme ist fehlgeschlagen (${e instanceof Error ? e.message : e}).` });
+    } finally {
+      recordAbortRef.current = null;
+      setRecordProgress(null);
+    }
+  };
+
+  const openScene = async (file: File) => {
+    const result = parseScene(await file.text());
+    if (result.ok === false) {
+      setNotice({
+        message: `Die Szene „${file.name}“ enthält Fehler:`,
+        details: result.errors.map(e => e.path ? `${e.path}: ${e.message}` : e.message),
+      });
+      return;
+    }
+    const { camera, ...state } = result.scene;
+    const data = deconvertState(state);
+    applyState(data);
+    if (camera) setPendingCameraPose({ pose: camera, appMode: data.appMode });
+    setNotice(null);
+  };
+
+  const loadPreset = (preset: ScenePreset) => {
+    setSources(preset.sources());
+    setGroups([]);
+    setGlobalSpeed(preset.globalSpeed);
+    setActivePreset(preset);
+    resetTime();
+  };
+
   const handleSceneFog = (mode: AppMode, scene: THREE.Scene) => {
     scene.fog = null;
   };
 
   return (
     <>
-      <Canvas shadows dpr={[1, 2]} onCreated={({ scene }) => handleSceneFog(appMode, scene)}>
+      <Canvas
+        shadows
+        dpr={[1, 2]}
+        style={{ cursor: tool === Tool.Orbit ? undefined : 'crosshair' }}
+        onCreated={({ scene }) => handleSceneFog(appMode, scene)}
+      >
         {appMode === AppMode.Waves ? (
            <Skybox />
         ) : (
            <color attach="background" args={['#050505']} />
         )}
         
-        <CameraController appMode={appMode} />
+        <CameraController appMode={appMode} enabled={tool === Tool.Orbit || tool === Tool.Probe} />
+        <CameraPoseBridge
+            apiRef={getCameraPoseRef}
+            pendingPose={pendingCameraPose}
+            onApplied={clearPendingCameraPose}
+        />
+        <FrameRenderBridge apiRef={renderFrameRef} timeRef={timeRef} />
+        <StillRenderBridge apiRef={renderStillRef} />
         
         <ambientLight intensity={0.5} />
 
+        {solver === SolverMode.Numerical && (
+          <FdtdSolver
+            sources={harmonics}
+            medium={medium}
+            timeRef={timeRef}
+            outputRef={fdtdRef}
+            readback={probes.length > 0 || (appMode === AppMode.Params2D && section !== null) || dataDialogOpen || (appMode !== AppMode.Waves && (autoScale || paramMode === ParamMode.WaveVector))}
+          />
+        )}
         <WaveMesh 
-          sources={sources} 
-          globalSpeed={globalSpeed} 
+          sources={fieldSources} 
+          medium={medium} 
           geometrySpeed={geometrySpeed}
-          isPlaying={isPlaying} 
+          isPlaying={isPlaying && recordProgress === null} 
+          timeScale={timeScale}
           timeRef={timeRef} 
           paramMode={paramMode}
           appMode={appMode}
+          solver={solver}
+          fdtdRef={fdtdRef}
+          colormap={colormap}
+          valueRange={valueRange}
         />
         <SourceArrows 
             sources={sources} 
+            mutedIds={simulatedSources.filter(s => !s.visible).map(s => s.id)}
             globalSpeed={globalSpeed} 
             timeRef={timeRef} 
+            onMoveSource={moveSource}
         />
+        <ProbeMarkers
+            probes={probes}
+            sampler={sampler}
+            timeRef={timeRef}
+        />
+        {tool === Tool.Probe && <PickPlane onPick={addProbe} />}
+        {appMode !== AppMode.Waves && showInterference && (
+          <InterferenceOverlay
+            fieldSources={fieldSources}
+            sources={simulatedSources}
+            medium={medium}
+            timeRef={timeRef}
+            isPlaying={isPlaying && recordProgress === null}
+            computed={solver === SolverMode.Analytic}
+          />
+        )}
+        {appMode !== AppMode.Waves && paramMode === ParamMode.WaveVector && (
+          <WaveVectorArrows
+            sampler={sampler}
+            sources={simulatedSources}
+            timeRef={timeRef}
+            isPlaying={isPlaying && recordProgress === null}
+            stationary={solver === SolverMode.Analytic && isStationary(simulatedSources)}
+          />
+        )}
+        {appMode === AppMode.Params2D && section && <SectionOverlay section={section} />}
+        {appMode === AppMode.Params2D && tool === Tool.Section && <SegmentDrawPlane onDraw={setSection} />}
+        <WallOverlay walls={walls} />
+        {tool === Tool.Wall && <SegmentDrawPlane onDraw={drawWall} onDrawStart={startWall} />}
+        <BarrierOverlay barriers={barriers} />
+        {tool === Tool.Barrier && <SegmentDrawPlane onDraw={drawBarrier} onDrawStart={startBarrier} />}
+        <RegionOverlay regions={regions} speed={globalSpeed} />
+        {tool === Tool.Region && <SegmentDrawPlane onDraw={drawRegion} onDrawStart={startRegion} />}
       </Canvas>
 
       <div className="ui-container">
+        {arrayDialogOpen && (
+          <ArrayGeneratorDialog
+            maxCount={MAX_SOURCES - sources.length}
+            onCreate={createGroup}
+            onClose={() => setArrayDialogOpen(false)}
+          />
+        )}
+
+        {stillDialogOpen && (
+          <StillExportDialog
+            onExportPng={exportPng}
+            onExportLegend={appMode === AppMode.Waves ? null : exportLegend}
+            onClose={() => setStillDialogOpen(false)}
+          />
+        )}
+
+        {dataDialogOpen && (
+          <DataExportDialog
+            paramMode={paramMode}
+            numerical={solver === SolverMode.Numerical}
+            progress={dataProgress}
+            onStart={exportData}
+            onCancel={() => dataAbortRef.current?.abort()}
+            onClose={() => setDataDialogOpen(false)}
+          />
+        )}
+
+        {recordDialogOpen && (
+          <RecordDialog
+            sources={simulatedSources}
+            progress={recordProgress}
+            onStart={startRecording}
+            onCancel={() => recordAbortRef.current?.abort()}
+            onClose={() => setRecordDialogOpen(false)}
+          />
+        )}
+
+        {notice && (
+          <div className="notice">
+            <div>
+              {notice.message}
+              {notice.details && (
+                <ul>
+                  {notice.details.map((d, i) => <li key={i}>{d}</li>)}
+                </ul>
+              )}
+            </div>
+            <button className="btn-icon" onClick={() => setNotice(null)} title="Schließen">
+              <X size={16} />
+            </button>
+          </div>
+        )}
+
         {!sidebarOpen && (
           <button className="toggle-btn btn btn-secondary" onClick={() => setSidebarOpen(true)}>
             <Menu size={20} />
@@ -950,6 +3887,63 @@ const App = () => {
           </div>
 
           <div className="scrollable-content">
+            <div className="section-title">
+              <Save size={14} /> Szene
+            </div>
+            <div style={{display:'flex', gap: '8px', marginBottom: '8px', flexShrink: 0}}>
+               <button className="btn btn-secondary" style={{flex: 1, padding: '6px', fontSize:'0.8rem'}} onClick={saveScene} title="Szene als JSON-Datei speichern">
+                  <Save size={14} style={{marginRight:4}}/> Speichern
+               </button>
+               <button className="btn btn-secondary" style={{flex: 1, padding: '6px', fontSize:'0.8rem'}} onClick={() => sceneInputRef.current?.click()} title="Szene aus JSON-Datei laden">
+                  <FolderOpen size={14} style={{marginRight:4}}/> Öffnen
+               </button>
+               <input
+                  ref={sceneInputRef}
+                  type="file"
+                  accept=".json,application/json"
+                  style={{display: 'none'}}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) openScene(file);
+                    e.target.value = '';
+                  }}
+               />
+            </div>
+            <div style={{display:'flex', gap: '8px', marginBottom: '15px', flexShrink: 0}}>
+               <button className="btn btn-secondary" style={{flex: 1, padding: '6px', fontSize:'0.8rem'}} onClick={() => setStillDialogOpen(true)} title="Ansicht als hochaufgelöstes PNG exportieren">
+                  <ImageDown size={14} style={{marginRight:4}}/> Bild
+               </button>
+               <button className="btn btn-secondary" style={{flex: 1, padding: '6px', fontSize:'0.8rem'}} onClick={() => setDataDialogOpen(true)} title="Felddaten als CSV, NPY oder 16-bit-PNG exportieren">
+                  <Table size={14} style={{marginRight:4}}/> Daten
+               </button>
+            </div>
+
+            <div className="section-title">
+              <Library size={14} /> Experimente
+            </div>
+            <div className="preset-grid">
+              {SCENE_PRESETS.map(preset => (
+                <button
+                  key={preset.id}
+                  className={`btn ${activePreset?.id === preset.id ? '' : 'btn-secondary'}`}
+                  onClick={() => loadPreset(preset)}
+                >
+                  {preset.name}
+                </button>
+              ))}
+            </div>
+            {activePreset && (
+              <div className="legend preset-caption">
+                <div className="card-header" style={{ marginBottom: 4 }}>
+                  <span className="card-title">{activePreset.name}</span>
+                  <button className="btn-icon" onClick={() => setActivePreset(null)} title="Schließen">
+                    <X size={14} />
+                  </button>
+                </div>
+                {activePreset.caption}
+              </div>
+            )}
+
             <div className="section-title">
               <Layers size={14} /> Modus
             </div>
@@ -978,6 +3972,20 @@ const App = () => {
               </button>
             </div>
 
+            <div className="view-selector">
+              {SOLVER_OPTIONS.map(option => (
+                <button
+                  key={option.value}
+                  className={`view-option ${solver === option.value ? 'active' : ''}`}
+                  style={{ minHeight: 0 }}
+                  onClick={() => setSolver(option.value)}
+                  title={option.title}
+                >
+                  <span>{option.label}</span>
+                </button>
+              ))}
+            </div>
+
             {appMode !== AppMode.Waves && (
               <>
                 <div className="section-title">
@@ -1015,27 +4023,164 @@ const App = () => {
                     onClick={() => setParamMode(ParamMode.Phase)}
                   />
                 </div>
+                <div className="view-selector">
+                  <LatexButton 
+                    label="Intensity" 
+                    symbol="I" 
+                    active={paramMode === ParamMode.Intensity}
+                    onClick={() => setParamMode(ParamMode.Intensity)}
+                  />
+                  <LatexButton 
+                    label="Energy density" 
+                    symbol="⟨w⟩" 
+                    active={paramMode === ParamMode.Energy}
+                    onClick={() => setParamMode(ParamMode.Energy)}
+                  />
+                  <LatexButton 
+                    label="RMS" 
+                    symbol={<span>s<sub style={{fontSize:'0.7em', fontStyle:'normal'}}>eff</sub></span>} 
+                    active={paramMode === ParamMode.Rms}
+                    onClick={() => setParamMode(ParamMode.Rms)}
+                  />
+                  <LatexButton 
+                    label="Wave vector" 
+                    symbol="k" 
+                    active={paramMode === ParamMode.WaveVector}
+                    onClick={() => setParamMode(ParamMode.WaveVector)}
+                  />
+                </div>
 
                 <div className="legend">
-                  {paramMode === ParamMode.Phase ? (
+                  <div className="colormap-grid">
+                    {COLORMAP_OPTIONS.map(option => (
+                      <button
+                        key={option.value}
+                        className={`colormap-option ${colormap === option.value ? 'active' : ''}`}
+                        onClick={() => setColormap(option.value)}
+                        title={option.title}
+                      >
+                        <span className="colormap-swatch" style={{ background: colormapGradient(option.value, paramMode) }} />
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="gradient-bar" style={{ background: colormapGradient(colormap, paramMode) }}></div>
+                  <div className="legend-ticks">
+                    {paramLegend(paramMode, colormap, valueRange).ticks.map(tick => (
+                      <span
+                        key={tick.label}
+                        style={{
+                          left: `${tick.offset * 100}%`,
+                          transform: `translateX(${{ start: '0', middle: '-50%', end: '-100%' }[tickAnchor(tick.offset)]})`,
+                        }}
+                      >
+                        {tick.label}
+                      </span>
+                    ))}
+                  </div>
+                  {!hasFixedRange(paramMode) && (
                     <>
-                      <div className="legend-label" style={{justifyContent: 'space-between'}}>
-                         <span style={{color:'#00ffff'}}>-π</span>
-                         <span style={{color:'#ff0000'}}>0</span>
-                         <span style={{color:'#00ffff'}}>+π</span>
+                      <div className="view-selector" style={{ marginTop: 8, marginBottom: 0 }}>
+                        <button
+                          className={`view-option ${autoScale ? 'active' : ''}`}
+                          style={{ minHeight: 0 }}
+                          onClick={() => setAutoScale(true)}
+                          title="Bereich laufend an das Feld um die Erreger anpassen"
+                        >
+                          <span>Auto</span>
+                        </button>
+                        <button
+                          className={`view-option ${autoScale ? '' : 'active'}`}
+                          style={{ minHeight: 0 }}
+                          onClick={() => setAutoScale(false)}
+                          title="Bereich von Hand festlegen"
+                        >
+                          <span>Min/Max</span>
+                        </button>
                       </div>
-                      <div className="gradient-bar" style={{
-                        background: 'linear-gradient(90deg, #00ffff, #ff00ff, #ff0000, #ffff00, #00ffff)'
-                      }}></div>
-                    </>
-                  ) : (
-                    <>
-                      <div className="legend-label">Rot (-)</div>
-                      <div className="gradient-bar"></div>
-                      <div className="legend-label">Blau (+)</div>
+                      {!autoScale && (
+                        <div className="row" style={{ gap: 8, marginTop: 8 }}>
+                          {(['Min', 'Max'] as const).map((label, k) => (
+                            <label key={label} className="legend-label" style={{ alignItems: 'center', gap: 6, flex: 1 }}>
+                              {label}
+                              <input
+                                type="number"
+                                step={0.1}
+                                value={manualRanges[paramMode][k]}
+                                style={{ width: '100%' }}
+                                onChange={(e) => {
+                                  const v = parseFloat(e.target.value);
+                                  if (!Number.isFinite(v)) return;
+                                  const range: ValueRange = [...manualRanges[paramMode]];
+                                  range[k] = v;
+                                  if (range[1] - range[0] < 1e-6) return;
+                                  setManualRanges({ ...manualRanges, [paramMode]: range });
+                                }}
+                              />
+                            </label>
+                          ))}
+                        </div>
+                      )}
                     </>
                   )}
                 </div>
+
+                <button
+                  className={`btn ${showInterference ? '' : 'btn-secondary'}`}
+                  style={{ width: '100%', padding: '6px', fontSize: '0.8rem', marginBottom: 8 }}
+                  onClick={() => setShowInterference(!showInterference)}
+                  title="Knotenlinien (destruktive) und Bauchlinien (konstruktive Interferenz) einzeichnen"
+                >
+                  Knoten- und Bauchlinien
+                </button>
+                {showInterference && (
+                  <div className="legend-label" style={{ justifyContent: 'flex-start', flexWrap: 'wrap', gap: '10px', marginTop: -4, marginBottom: 15 }}>
+                    {solver === SolverMode.Analytic ? (
+                      <>
+                        <span style={{ color: '#e2e8f0' }}>━ Knotenlinien (schwarz)</span>
+                        <span style={{ color: ANTINODAL_COLOR }}>━ Bauchlinien</span>
+                      </>
+                    ) : (
+                      <span>Berechnete Linien nur im analytischen Modus</span>
+                    )}
+                    {coherentPair(sources)
+                      ? <span style={{ color: HYPERBOLA_COLOR }}>┅ Hyperbeln Δs = (m + Δφ/2π)·λ</span>
+                      : <span>Hyperbeln nur für zwei kohärente, ruhende Erreger</span>}
+                  </div>
+                )}
+
+                {appMode === AppMode.Params2D && (
+                  <>
+                    <div className="section-title" style={{ display: 'flex', justifyContent: 'space-between' }}>
+                      <span><Ruler size={14} style={{display:'inline', verticalAlign:'middle'}}/> Schnitt</span>
+                      <div className="row" style={{ gap: 4 }}>
+                        {section && (
+                          <button className="btn-icon" onClick={() => setSection(null)} title="Schnitt löschen">
+                            <Trash2 size={14} />
+                          </button>
+                        )}
+                        <button
+                          className={`btn ${tool === Tool.Section ? '' : 'btn-secondary'}`}
+                          style={{padding: '4px 8px', fontSize: '0.7rem'}}
+                          onClick={() => setTool(tool === Tool.Section ? Tool.Orbit : Tool.Section)}
+                          title="Linie über das Feld ziehen"
+                        >
+                          {tool === Tool.Section ? 'Fertig' : 'Linie ziehen'}
+                        </button>
+                      </div>
+                    </div>
+                    {section && (
+                      <div className="source-card">
+                        <SectionPlot
+                          section={section}
+                          sampler={sampler}
+                          paramMode={paramMode}
+                          timeRef={timeRef}
+                        />
+                      </div>
+                    )}
+                  </>
+                )}
               </>
             )}
 
@@ -1054,12 +4199,271 @@ const App = () => {
                     onChange={(e) => setGlobalSpeed(parseFloat(e.target.value))}
                   />
                 </div>
+
+                <div className="control-group">
+                  <label>Abnahme mit Abstand r</label>
+                  <div className="view-selector" style={{ marginBottom: 0 }}>
+                    {FALLOFF_OPTIONS.map(option => (
+                      <button
+                        key={option.value}
+                        className={`view-option ${falloff === option.value ? 'active' : ''}`}
+                        style={{ minHeight: 0 }}
+                        onClick={() => setFalloff(option.value)}
+                        title={option.title}
+                      >
+                        <span>{option.label}</span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="control-group">
+                  <label>Absorption α (1/m) <span>{absorption.toFixed(3)}</span></label>
+                  <input
+                    type="range"
+                    min="0"
+                    max="0.5"
+                    step="0.005"
+                    value={absorption}
+                    onChange={(e) => setAbsorption(parseFloat(e.target.value))}
+                  />
+                </div>
+            </div>
+
+            <div className="section-title" style={{ marginTop: '10px', display: 'flex', justifyContent: 'space-between' }}>
+              <span><Square size={14} style={{display:'inline', verticalAlign:'middle'}}/> Zonen</span>
+              <button
+                className={`btn ${tool === Tool.Region ? '' : 'btn-secondary'}`}
+                style={{padding: '4px 8px', fontSize: '0.7rem'}}
+                onClick={() => setTool(tool === Tool.Region ? Tool.Orbit : Tool.Region)}
+                disabled={tool !== Tool.Region && regions.length >= MAX_SPEED_REGIONS}
+                title="Auf der Wasseroberfläche ein Rechteck mit eigener Ausbreitungsgeschwindigkeit ziehen, z. B. eine Flachwasserzone. Die Wellenfronten werden an den Grenzen gebrochen."
+              >
+                {tool === Tool.Region ? 'Fertig' : 'Zone ziehen'}
+              </button>
+            </div>
+            {regions.length > 0 && solver === SolverMode.Analytic && (
+              <div className="legend-label" style={{ display: 'block', marginBottom: 8 }}>
+                Näherung: Der analytische Löser verzögert die Wellenfronten in den Zonen, die Strahlen
+                werden aber nicht nach Snellius gebrochen.{' '}
+                <button
+                  className="btn btn-secondary"
+                  style={{ padding: '2px 6px', fontSize: '0.7rem', marginTop: 4 }}
+                  onClick={() => setSolver(SolverMode.Numerical)}
+                >
+                  Numerisch rechnen
+                </button>
+              </div>
+            )}
+
+            <div className="controls-list">
+              {regions.map((region, index) => (
+                <div key={region.id} className="source-card">
+                  <div className="card-header">
+                    <span className="card-title">
+                      Zone Z{index + 1}
+                      <span style={{fontSize: '0.7rem', color: '#64748b', marginLeft: 8}}>
+                        n = c / c<sub>Z</sub> = {(globalSpeed / region.speed).toFixed(2)}
+                      </span>
+                    </span>
+                    <button className="btn-icon" onClick={() => removeRegion(region.id)} title="Löschen">
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                  <div className="control-group">
+                    <label>Geschwindigkeit c<sub>Z</sub> (m/s) <span>{region.speed.toFixed(1)}</span></label>
+                    <input
+                      type="range"
+                      min="1"
+                      max="20"
+                      step="0.5"
+                      value={region.speed}
+                      onChange={(e) => updateRegion(region.id, { speed: parseFloat(e.target.value) })}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="section-title" style={{ marginTop: '10px', display: 'flex', justifyContent: 'space-between' }}>
+              <span><BrickWall size={14} style={{display:'inline', verticalAlign:'middle'}}/> Wände</span>
+              <button
+                className={`btn ${tool === Tool.Wall ? '' : 'btn-secondary'}`}
+                style={{padding: '4px 8px', fontSize: '0.7rem'}}
+                onClick={() => setTool(tool === Tool.Wall ? Tool.Orbit : Tool.Wall)}
+                disabled={tool !== Tool.Wall && walls.length >= MAX_WALLS}
+                title="Auf der Wasseroberfläche eine Wand ziehen. Wellen werden an ihr reflektiert (Spiegelquellen)."
+              >
+                {tool === Tool.Wall ? 'Fertig' : 'Wand ziehen'}
+              </button>
+            </div>
+
+            <div className="controls-list">
+              {walls.map((wall, index) => (
+                <div key={wall.id} className="source-card">
+                  <div className="card-header">
+                    <span className="card-title">
+                      Wand W{index + 1}
+                      <span style={{fontSize: '0.7rem', color: '#64748b', marginLeft: 8}}>
+                        {Math.hypot(wall.x2 - wall.x1, wall.y2 - wall.y1).toFixed(1)} m
+                      </span>
+                    </span>
+                    <button className="btn-icon" onClick={() => removeWall(wall.id)} title="Löschen">
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                  <div className="control-group">
+                    <label>Reflexionsgrad R <span>{wall.reflection.toFixed(2)}</span></label>
+                    <input
+                      type="range"
+                      min="0"
+                      max="1"
+                      step="0.05"
+                      value={wall.reflection}
+                      onChange={(e) => updateWall(wall.id, { reflection: parseFloat(e.target.value) })}
+                    />
+                  </div>
+                  <div className="view-selector" style={{ marginBottom: 0 }}>
+                    <button
+                      className={`view-option ${!wall.phaseFlip ? 'active' : ''}`}
+                      style={{ minHeight: 0 }}
+                      onClick={() => updateWall(wall.id, { phaseFlip: false })}
+                      title="Loses Ende: Reflexion ohne Phasensprung"
+                    >
+                      <span>Lose</span>
+                    </button>
+                    <button
+                      className={`view-option ${wall.phaseFlip ? 'active' : ''}`}
+                      style={{ minHeight: 0 }}
+                      onClick={() => updateWall(wall.id, { phaseFlip: true })}
+                      title="Festes Ende: Reflexion mit Phasensprung π"
+                    >
+                      <span>Fest (π)</span>
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="section-title" style={{ marginTop: '10px', display: 'flex', justifyContent: 'space-between' }}>
+              <span><SeparatorVertical size={14} style={{display:'inline', verticalAlign:'middle'}}/> Blenden</span>
+              <button
+                className={`btn ${tool === Tool.Barrier ? '' : 'btn-secondary'}`}
+                style={{padding: '4px 8px', fontSize: '0.7rem'}}
+                onClick={() => setTool(tool === Tool.Barrier ? Tool.Orbit : Tool.Barrier)}
+                disabled={tool !== Tool.Barrier && barriers.length >= MAX_BARRIERS}
+                title="Auf der Wasseroberfläche eine Blende ziehen. Hinter den Spalten entstehen Huygenssche Elementarwellen."
+              >
+                {tool === Tool.Barrier ? 'Fertig' : 'Blende ziehen'}
+              </button>
+            </div>
+
+            <div className="controls-list">
+              {barriers.map((barrier, index) => {
+                const slits = slitGeometry(barrier);
+                return (
+                  <div key={barrier.id} className="source-card">
+                    <div className="card-header">
+                      <span className="card-title">
+                        Blende B{index + 1}
+                        <span style={{fontSize: '0.7rem', color: '#64748b', marginLeft: 8}}>
+                          {Math.hypot(barrier.x2 - barrier.x1, barrier.y2 - barrier.y1).toFixed(1)} m
+                        </span>
+                      </span>
+                      <button className="btn-icon" onClick={() => removeBarrier(barrier.id)} title="Löschen">
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                    <div className="view-selector" style={{ marginBottom: 8 }}>
+                      {[{ count: 1, label: 'Einzelspalt' }, { count: 2, label: 'Doppelspalt' }].map(option => (
+                        <button
+                          key={option.count}
+                          className={`view-option ${slits.count === option.count ? 'active' : ''}`}
+                          style={{ minHeight: 0 }}
+                          onClick={() => updateSlits(barrier.id, { count: option.count })}
+                        >
+                          <span>{option.label}</span>
+                        </button>
+                      ))}
+                    </div>
+                    <div className="control-group">
+                      <label>Spaltbreite b (m) <span>{slits.width.toFixed(1)}</span></label>
+                      <input
+                        type="range"
+                        min="0.2"
+                        max="6"
+                        step="0.1"
+                        value={slits.width}
+                        onChange={(e) => updateSlits(barrier.id, { width: parseFloat(e.target.value) })}
+                      />
+                    </div>
+                    {slits.count > 1 && (
+                      <div className="control-group">
+                        <label>Spaltabstand g (m) <span>{slits.distance.toFixed(1)}</span></label>
+                        <input
+                          type="range"
+                          min="0.5"
+                          max="12"
+                          step="0.1"
+                          value={slits.distance}
+                          onChange={(e) => updateSlits(barrier.id, { distance: parseFloat(e.target.value) })}
+                        />
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="section-title" style={{ marginTop: '10px', display: 'flex', justifyContent: 'space-between' }}>
+              <span><Crosshair size={14} style={{display:'inline', verticalAlign:'middle'}}/> Sonden</span>
+              <button
+                className={`btn ${tool === Tool.Probe ? '' : 'btn-secondary'}`}
+                style={{padding: '4px 8px', fontSize: '0.7rem'}}
+                onClick={() => setTool(tool === Tool.Probe ? Tool.Orbit : Tool.Probe)}
+                title="Klick auf die Wasseroberfläche setzt eine Sonde"
+              >
+                {tool === Tool.Probe ? 'Fertig' : 'Sonde setzen'}
+              </button>
+            </div>
+
+            {probes.length > 0 && (
+              <div className="legend-label" style={{justifyContent: 'flex-start', gap: '10px', marginBottom: '8px'}}>
+                {PROBE_CHART_SERIES.map(series => (
+                  <span key={series.key} style={{color: series.color}}>{series.label}</span>
+                ))}
+              </div>
+            )}
+
+            <div className="controls-list">
+              {probes.map((probe, index) => (
+                <div key={probe.id} className="source-card">
+                  <div className="card-header">
+                    <span className="card-title">
+                      Sonde P{index + 1}
+                      <span style={{fontSize: '0.7rem', color: '#64748b', marginLeft: 8}}>
+                        ({probe.x.toFixed(1)}, {probe.y.toFixed(1)})
+                      </span>
+                    </span>
+                    <button className="btn-icon" onClick={() => removeProbe(probe.id)} title="Löschen">
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                  <ProbeChart probe={probe} sampler={sampler} timeRef={timeRef} />
+                </div>
+              ))}
             </div>
 
             <div className="section-title" style={{ marginTop: '10px', display: 'flex', justifyContent: 'space-between' }}>
               <span><Activity size={14} style={{display:'inline', verticalAlign:'middle'}}/> Erreger</span>
-              <span style={{fontSize: '0.7rem', color: '#64748b'}}>{sources.length}/10</span>
+              <span style={{fontSize: '0.7rem', color: '#64748b'}}>{sources.length}/{MAX_SOURCES}</span>
             </div>
+            {requestedSlots > MAX_SOURCES && (
+              <div className="legend-label" style={{ display: 'block', marginBottom: 8, color: '#f97316' }}>
+                Die Oberschwingungen der Wellenformen belegen {requestedSlots} von {MAX_SOURCES} Plätzen.
+                Die letzten {requestedSlots - MAX_SOURCES} werden nicht berechnet.
+              </div>
+            )}
             
             <div style={{display:'flex', gap: '8px', marginBottom: '10px', flexShrink: 0}}>
                <button className="btn btn-secondary" style={{flex: 1, padding: '6px', fontSize:'0.8rem'}} onClick={randomizeSources} title="Parameter würfeln">
@@ -1068,91 +4472,579 @@ const App = () => {
                <button className="btn btn-secondary" style={{flex: 1, padding: '6px', fontSize:'0.8rem'}} onClick={resetSourcesToStandard} title="Reset auf Standard">
                   <RefreshCw size={14} style={{marginRight:4}}/> Reset
                </button>
+               <button className="btn btn-secondary" style={{padding: '6px 8px', fontSize:'0.8rem'}} onClick={() => setArrayDialogOpen(true)} title="Array erzeugen" disabled={sources.length >= MAX_SOURCES}>
+                  <Grid3x3 size={14} />
+               </button>
+               <button
+                  className={`btn ${snapToGrid ? '' : 'btn-secondary'}`}
+                  style={{padding: '6px 8px', fontSize:'0.8rem'}}
+                  onClick={() => setSnapToGrid(!snapToGrid)}
+                  title={`Beim Ziehen auf ${SNAP_GRID} m Raster einrasten`}
+               >
+                  <Magnet size={14} />
+               </button>
+               <button
+                  className="btn btn-secondary"
+                  style={{padding: '6px 8px', fontSize:'0.8rem'}}
+                  onClick={showAllSources}
+                  title="Alle Erreger einblenden"
+                  disabled={sources.every(s => s.visible)}
+               >
+                  <Eye size={14} />
+               </button>
             </div>
 
-            <div className="controls-list">
-              {sources.map((source, index) => (
-                <div key={source.id} className="source-card" style={{ opacity: source.visible ? 1 : 0.6 }}>
+            <div className="view-selector" style={{ marginBottom: 8 }}>
+              {ISOLATION_OPTIONS.map(option => (
+                <button
+                  key={option.value}
+                  className={`view-option ${isolation === option.value ? 'active' : ''}`}
+                  style={{ minHeight: 0 }}
+                  onClick={() => setIsolation(option.value)}
+                  title={option.title}
+                >
+                  <span>{option.label}</span>
+                </button>
+              ))}
+            </div>
+            {isolation !== Isolation.Off && isolated && (
+              <div className="row" style={{ gap: 4, alignItems: 'center', marginBottom: 8 }}>
+                <button className="btn-icon" onClick={() => cycleIsolated(-1)} title="Vorheriger Erreger">
+                  <ChevronLeft size={16} />
+                </button>
+                <span style={{ flex: 1, textAlign: 'center', fontSize: '0.8rem' }}>
+                  {isolationCaption(isolation, `E${sources.indexOf(isolated) + 1}`)}
+                </span>
+                <button className="btn-icon" onClick={() => cycleIsolated(1)} title="Nächster Erreger">
+                  <ChevronRight size={16} />
+                </button>
+              </div>
+            )}
+            <button
+              className={`btn ${showSourceTiles ? '' : 'btn-secondary'}`}
+              style={{ width: '100%', padding: '6px', fontSize: '0.8rem', marginBottom: 8 }}
+              onClick={() => setShowSourceTiles(!showSourceTiles)}
+              title={`Feld jedes Erregers einzeln (analytisch, höchstens ${MAX_SOURCE_TILES})`}
+            >
+              <LayoutGrid size={14} style={{ marginRight: 4 }} /> Einzelbeiträge
+            </button>
+            {showSourceTiles && (
+              <SourceTiles
+                sources={sources}
+                medium={medium}
+                paramMode={paramMode}
+                colormap={colormap}
+                valueRange={valueRange}
+                timeRef={timeRef}
+                isPlaying={isPlaying}
+                selectedId={isolation === Isolation.Off ? null : isolated?.id ?? null}
+                onSelect={isolateSource}
+              />
+            )}
+
+            {groups.map((group, index) => (
+              <div key={group.id} className="source-card group-editor">
+                <div className="card-header">
+                  <span className="card-title">
+                    Gruppe G{index + 1}
+                    <span style={{fontSize: '0.7rem', color: '#64748b', marginLeft: 8}}>
+                      {ARRAY_LAYOUT_LABELS[group.layout]} · {groupSize(group)} Erreger
+                    </span>
+                  </span>
+                  <div className="row" style={{ gap: 4 }}>
+                    <button className="btn-icon" onClick={() => ungroup(group.id)} title="Gruppe auflösen">
+                      <Ungroup size={16} />
+                    </button>
+                    <button className="btn-icon" onClick={() => removeGroup(group.id)} title="Gruppe löschen">
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                </div>
+
+                <div className="control-group">
+                  <label>Mitte X (m) <span>{group.x.toFixed(1)}</span></label>
+                  <input
+                    type="range"
+                    min={-SOURCE_POSITION_LIMIT}
+                    max={SOURCE_POSITION_LIMIT}
+                    step={SNAP_GRID}
+                    value={group.x}
+                    onChange={(e) => updateGroup(group.id, { x: parseFloat(e.target.value) })}
+                  />
+                </div>
+
+                <div className="control-group">
+                  <label>Mitte Y (m) <span>{group.y.toFixed(1)}</span></label>
+                  <input
+                    type="range"
+                    min={-SOURCE_POSITION_LIMIT}
+                    max={SOURCE_POSITION_LIMIT}
+                    step={SNAP_GRID}
+                    value={group.y}
+                    onChange={(e) => updateGroup(group.id, { y: parseFloat(e.target.value) })}
+                  />
+                </div>
+
+                <div className="control-group">
+                  <label>Drehung (°) <span>{(group.rotation * 180 / Math.PI).toFixed(0)}</span></label>
+                  <input
+                    type="range"
+                    min="0"
+                    max="360"
+                    step="1"
+                    value={group.rotation * 180 / Math.PI}
+                    onChange={(e) => updateGroup(group.id, { rotation: parseFloat(e.target.value) * Math.PI / 180 })}
+                  />
+                </div>
+
+                <div className="control-group">
+                  <label>{group.layout === ArrayLayout.Circular ? 'Radius r (m)' : 'Abstand d (m)'} <span>{group.spacing.toFixed(1)}</span></label>
+                  <input
+                    type="range"
+                    min="0.1"
+                    max={group.layout === ArrayLayout.Circular ? 20 : 10}
+                    step="0.1"
+                    value={group.spacing}
+                    onChange={(e) => updateGroup(group.id, { spacing: parseFloat(e.target.value) })}
+                  />
+                </div>
+
+                <div className="control-group">
+                  <label>Phasenschritt Δφ (rad) <span>{group.phaseStep.toFixed(2)}</span></label>
+                  <input
+                    type="range"
+                    min={-Math.PI}
+                    max={Math.PI}
+                    step="0.01"
+                    value={group.phaseStep}
+                    onChange={(e) => updateGroup(group.id, { phaseStep: parseFloat(e.target.value) })}
+                  />
+                </div>
+
+                <div className="control-group">
+                  <label>Amplitude (m) <span>{group.amplitude.toFixed(2)}</span></label>
+                  <input
+                    type="range"
+                    min="0"
+                    max="5"
+                    step="0.1"
+                    value={group.amplitude}
+                    onChange={(e) => updateGroup(group.id, { amplitude: parseFloat(e.target.value) })}
+                  />
+                </div>
+
+                <div className="control-group">
+                  <label>Frequenz ω (rad/s) <span>{group.frequency.toFixed(2)}</span></label>
+                  <input
+                    type="range"
+                    min="0.1"
+                    max="10"
+                    step="0.1"
+                    value={group.frequency}
+                    onChange={(e) => updateGroup(group.id, { frequency: parseFloat(e.target.value) })}
+                  />
+                </div>
+              </div>
+            ))}
+
+            <div className="row" style={{ gap: 8, marginBottom: 10, fontSize: '0.75rem', color: '#94a3b8', alignItems: 'center', flexShrink: 0 }}>
+              <span style={{ flex: 1 }}>Auswahl: {selectedIds.length}</span>
+              <button className="btn btn-secondary" style={{padding: '4px 8px', fontSize: '0.7rem'}} onClick={() => setSelectedIds(sources.map(s => s.id))}>
+                Alle
+              </button>
+              <button className="btn btn-secondary" style={{padding: '4px 8px', fontSize: '0.7rem'}} onClick={() => setSelectedIds([])} disabled={selectedIds.length === 0}>
+                Keine
+              </button>
+            </div>
+
+            {selectedIds.length > 0 && (() => {
+              // Sliders show the values of the first selected source
+              const first = sources.find(s => selectedIds.includes(s.id))!;
+              return (
+                <div className="source-card group-editor">
                   <div className="card-header">
-                    <span className="card-title">Erreger {index + 1}</span>
+                    <span className="card-title">{selectedIds.length} Erreger bearbeiten</span>
                     <div className="row" style={{ gap: 4 }}>
-                      <button className="btn-icon" onClick={() => toggleSourceVisibility(source.id)} title={source.visible ? "Verstecken" : "Anzeigen"}>
-                        {source.visible ? <Eye size={16} /> : <EyeOff size={16} />}
+                      <button className="btn-icon" onClick={() => updateSelectedSources({ visible: true })} title="Alle anzeigen">
+                        <Eye size={16} />
+                      </button>
+                      <button className="btn-icon" onClick={() => updateSelectedSources({ visible: false })} title="Alle verstecken">
+                        <EyeOff size={16} />
                       </button>
-                      <button className="btn-icon" onClick={() => removeSource(source.id)} title="Löschen">
+                      <button className="btn-icon" onClick={removeSelectedSources} title="Alle löschen">
                         <Trash2 size={16} />
                       </button>
                     </div>
                   </div>
 
-                  {source.visible && (
-                    <>
-                      <div className="control-group">
-                        <label>Position X (m) <span>{source.x.toFixed(1)}</span></label>
+                  <div className="control-group">
+                    <label>Amplitude (m) <span>{first.amplitude.toFixed(2)}</span></label>
+                    <input
+                      type="range"
+                      min="0"
+                      max="5"
+                      step="0.1"
+                      value={first.amplitude}
+                      onChange={(e) => updateSelectedSources({ amplitude: parseFloat(e.target.value) })}
+                    />
+                  </div>
+
+                  <div className="control-group">
+                    <label>Frequenz ω (rad/s) <span>{first.frequency.toFixed(2)}</span></label>
+                    <input
+                      type="range"
+                      min="0.1"
+                      max="10"
+                      step="0.1"
+                      value={first.frequency}
+                      onChange={(e) => updateSelectedSources({ frequency: parseFloat(e.target.value) })}
+                    />
+                  </div>
+
+                  <div className="control-group">
+                    <label>Phase φ (rad) <span>{first.phase.toFixed(2)}</span></label>
+                    <input
+                      type="range"
+                      min="0"
+                      max={Math.PI * 2}
+                      step="0.1"
+                      value={first.phase}
+                      onChange={(e) => updateSelectedSources({ phase: parseFloat(e.target.value) })}
+                    />
+                  </div>
+                </div>
+              );
+            })()}
+
+            <div className="controls-list">
+              {sources.map((source, index) => {
+                const compact = sources.length > COMPACT_SOURCE_LIST_THRESHOLD;
+                const expanded = !compact || expandedSourceId === source.id;
+                return (
+                  <div key={source.id} className={`source-card ${compact ? 'compact' : ''}`} style={{ opacity: source.visible ? 1 : 0.6 }}>
+                    <div className="card-header">
+                      <label className="card-title" style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
                         <input
-                          type="range"
-                          min="-20"
-                          max="20"
-                          step="0.5"
-                          value={source.x}
-                          onChange={(e) => updateSource(source.id, { x: parseFloat(e.target.value) })}
+                          type="checkbox"
+                          checked={selectedIds.includes(source.id)}
+                          onChange={() => toggleSelected(source.id)}
                         />
+                        Erreger {index + 1}
+                        {source.groupId && (
+                          <span style={{fontSize: '0.7rem', color: '#64748b'}}>
+                            · G{groups.findIndex(g => g.id === source.groupId) + 1}
+                          </span>
+                        )}
+                      </label>
+                      {compact && (
+                        <button
+                          className="source-summary"
+                          onClick={() => setExpandedSourceId(expanded ? null : source.id)}
+                          title={expanded ? "Einklappen" : "Ausklappen"}
+                        >
+                          ({source.x.toFixed(1)}, {source.y.toFixed(1)}) ω {source.frequency.toFixed(1)}
+                        </button>
+                      )}
+                      <div className="row" style={{ gap: 4 }}>
+                        <button className="btn-icon" onClick={() => toggleSourceVisibility(source.id)} title={source.visible ? "Verstecken" : "Anzeigen"}>
+                          {source.visible ? <Eye size={16} /> : <EyeOff size={16} />}
+                        </button>
+                        <button className="btn-icon" onClick={() => removeSource(source.id)} title="Löschen">
+                          <Trash2 size={16} />
+                        </button>
                       </div>
+                    </div>
+
+                    {source.visible && expanded && (
+                      <>
+                        <div className="control-group">
+                          <label>Position X (m) <span>{source.x.toFixed(1)}</span></label>
+                          <input
+                            type="range"
+                            min={-SOURCE_POSITION_LIMIT}
+                            max={SOURCE_POSITION_LIMIT}
+                            step={SNAP_GRID}
+                            value={source.x}
+                            onChange={(e) => updateSource(source.id, { x: parseFloat(e.target.value) })}
+                          />
+                        </div>
                       
-                      <div className="control-group">
-                        <label>Position Y (m) <span>{source.y.toFixed(1)}</span></label>
-                        <input
-                          type="range"
-                          min="-20"
-                          max="20"
-                          step="0.5"
-                          value={source.y}
-                          onChange={(e) => updateSource(source.id, { y: parseFloat(e.target.value) })}
-                        />
-                      </div>
+                        <div className="control-group">
+                          <label>Position Y (m) <span>{source.y.toFixed(1)}</span></label>
+                          <input
+                            type="range"
+                            min={-SOURCE_POSITION_LIMIT}
+                            max={SOURCE_POSITION_LIMIT}
+                            step={SNAP_GRID}
+                            value={source.y}
+                            onChange={(e) => updateSource(source.id, { y: parseFloat(e.target.value) })}
+                          />
+                        </div>
 
-                      <div className="control-group">
-                        <label>Amplitude (m) <span>{source.amplitude.toFixed(2)}</span></label>
-                        <input
-                          type="range"
-                          min="0"
-                          max="5"
-                          step="0.1"
-                          value={source.amplitude}
-                          onChange={(e) => updateSource(source.id, { amplitude: parseFloat(e.target.value) })}
-                        />
-                      </div>
+                        <div className="control-group">
+                          <label>Amplitude (m) <span>{source.amplitude.toFixed(2)}</span></label>
+                          <input
+                            type="range"
+                            min="0"
+                            max="5"
+                            step="0.1"
+                            value={source.amplitude}
+                            onChange={(e) => updateSource(source.id, { amplitude: parseFloat(e.target.value) })}
+                          />
+                        </div>
 
-                      <div className="control-group">
-                        <label>Frequenz ω (rad/s) <span>{source.frequency.toFixed(2)}</span></label>
-                        <input
-                          type="range"
-                          min="0.1"
-                          max="10"
-                          step="0.1"
-                          value={source.frequency}
-                          onChange={(e) => updateSource(source.id, { frequency: parseFloat(e.target.value) })}
-                        />
-                      </div>
+                        <div className="control-group">
+                          <label>Frequenz ω (rad/s) <span>{source.frequency.toFixed(2)}</span></label>
+                          <input
+                            type="range"
+                            min="0.1"
+                            max="10"
+                            step="0.1"
+                            value={source.frequency}
+                            onChange={(e) => updateSource(source.id, { frequency: parseFloat(e.target.value) })}
+                          />
+                        </div>
 
-                      <div className="control-group">
-                        <label>Phase φ (rad) <span>{source.phase.toFixed(2)}</span></label>
-                        <input
-                          type="range"
-                          min="0"
-                          max={Math.PI * 2}
-                          step="0.1"
-                          value={source.phase}
-                          onChange={(e) => updateSource(source.id, { phase: parseFloat(e.target.value) })}
-                        />
-                      </div>
-                    </>
-                  )}
-                </div>
-              ))}
+                        <div className="control-group">
+                          <label>Phase φ (rad) <span>{source.phase.toFixed(2)}</span></label>
+                          <input
+                            type="range"
+                            min="0"
+                            max={Math.PI * 2}
+                            step="0.1"
+                            value={source.phase}
+                            onChange={(e) => updateSource(source.id, { phase: parseFloat(e.target.value) })}
+                          />
+                        </div>
+
+                        {/* Group members are placed and driven by their group */}
+                        {!source.groupId && (
+                          <div className="view-selector" style={{ marginBottom: 0 }}>
+                            {SIGNAL_OPTIONS.map(option => (
+                              <button
+                                key={option.label}
+                                className={`view-option ${(source.emission?.waveform ?? null) === option.value ? 'active' : ''}`}
+                                style={{ minHeight: 0 }}
+                                onClick={() => updateEmission(source, option.value === null ? null : { waveform: option.value })}
+                                title={option.title}
+                              >
+                                <span>{option.label}</span>
+                              </button>
+                            ))}
+                          </div>
+                        )}
+
+                        {!source.groupId && (
+                          <div className="view-selector" style={{ marginBottom: 0 }}>
+                            {SHAPE_OPTIONS.map(option => (
+                              <button
+                                key={option.value}
+                                className={`view-option ${(source.shape?.kind ?? WaveShape.Sine) === option.value ? 'active' : ''}`}
+                                style={{ minHeight: 0 }}
+                                onClick={() => updateShape(source, { kind: option.value })}
+                                title={option.title}
+                              >
+                                <span>{option.label}</span>
+                              </button>
+                            ))}
+                          </div>
+                        )}
+
+                        {source.shape && (
+                          <div className="control-group">
+                            <label>Harmonische bis n = <span>{source.shape.terms}</span></label>
+                            <input
+                              type="range"
+                              min="1"
+                              max={MAX_HARMONICS}
+                              step="1"
+                              value={source.shape.terms}
+                              onChange={(e) => updateShape(source, { terms: parseInt(e.target.value) })}
+                            />
+                          </div>
+                        )}
+
+                        {source.shape?.kind === WaveShape.Custom && source.shape.harmonics.map((value, n) => (
+                          <div key={n} className="control-group">
+                            <label>Anteil a<sub>{n + 1}</sub> <span>{value.toFixed(2)}</span></label>
+                            <input
+                              type="range"
+                              min="-1"
+                              max="1"
+                              step="0.05"
+                              value={value}
+                              onChange={(e) => updateShape(source, {
+                                harmonics: source.shape.harmonics.map((a, k) => k === n ? parseFloat(e.target.value) : a),
+                              })}
+                            />
+                          </div>
+                        ))}
+
+                        {!source.groupId && (
+                          <div className="view-selector" style={{ marginBottom: 0 }}>
+                            {DISPERSION_OPTIONS.map(option => (
+                              <button
+                                key={option.value}
+                                className={`view-option ${(source.dispersion ?? Dispersion.None) === option.value ? 'active' : ''}`}
+                                style={{ minHeight: 0 }}
+                                onClick={() => updateSource(source.id, { dispersion: option.value === Dispersion.None ? undefined : option.value })}
+                                title={option.title}
+                              >
+                                <span>{option.label}</span>
+                              </button>
+                            ))}
+                          </div>
+                        )}
+
+                        {source.dispersion === Dispersion.DeepWater && (
+                          <div style={{ fontSize: '0.7rem', color: '#64748b', marginBottom: 8 }}>
+                            Phasengeschwindigkeit g/ω = {(GRAVITY / source.frequency).toFixed(2)} m/s,
+                            Gruppengeschwindigkeit {(GRAVITY / (2 * source.frequency)).toFixed(2)} m/s
+                          </div>
+                        )}
+
+                        {source.emission && (
+                          <>
+                            <div className="control-group">
+                              <label>
+                                Start t<sub>start</sub> (s)
+                                <span>
+                                  {source.emission.start.toFixed(1)}
+                                  <button
+                                    className="btn-icon"
+                                    style={{ display: 'inline', padding: '0 0 0 6px', fontSize: '0.7rem' }}
+                                    onClick={() => updateEmission(source, { start: Math.round(timeRef.current * 10) / 10 })}
+                                    title="Zur aktuellen Zeit starten"
+                                  >
+                                    jetzt
+                                  </button>
+                                </span>
+                              </label>
+                              <input
+                                type="range"
+                                min="0"
+                                max={Math.max(EMISSION_TIME_LIMIT, source.emission.start)}
+                                step="0.1"
+                                value={source.emission.start}
+                                onChange={(e) => updateEmission(source, { start: parseFloat(e.target.value) })}
+                              />
+                            </div>
+
+                            {source.emission.waveform === Waveform.Sine ? (
+                              <div className="control-group">
+                                <label>
+                                  Stopp t<sub>stop</sub> (s)
+                                  <span>{Number.isFinite(source.emission.stop) ? source.emission.stop.toFixed(1) : '∞'}</span>
+                                </label>
+                                <input
+                                  type="range"
+                                  min="0"
+                                  max={EMISSION_TIME_LIMIT}
+                                  step="0.5"
+                                  value={Math.min(source.emission.stop, EMISSION_TIME_LIMIT)}
+                                  onChange={(e) => {
+                                    const stop = parseFloat(e.target.value);
+                                    updateEmission(source, { stop: stop >= EMISSION_TIME_LIMIT ? Infinity : stop });
+                                  }}
+                                />
+                              </div>
+                            ) : (
+                              <div className="control-group">
+                                <label>Breite σ (s) <span>{source.emission.width.toFixed(1)}</span></label>
+                                <input
+                                  type="range"
+                                  min="0.1"
+                                  max="3"
+                                  step="0.1"
+                                  value={source.emission.width}
+                                  onChange={(e) => updateEmission(source, { width: parseFloat(e.target.value) })}
+                                />
+                              </div>
+                            )}
+                          </>
+                        )}
+
+                        {!source.groupId && (
+                          <div className="view-selector" style={{ marginBottom: 0 }}>
+                            {MOTION_OPTIONS.map(option => (
+                              <button
+                                key={option.value}
+                                className={`view-option ${(source.motion?.path ?? MotionPath.Static) === option.value ? 'active' : ''}`}
+                                style={{ minHeight: 0 }}
+                                onClick={() => updateMotion(source, { path: option.value })}
+                                title={option.title}
+                              >
+                                <span>{option.label}</span>
+                              </button>
+                            ))}
+                          </div>
+                        )}
+
+                        {source.motion && (
+                          <>
+                            <div className="control-group">
+                              <label>
+                                Geschwindigkeit v (m/s)
+                                <span>{source.motion.speed.toFixed(1)} · M = {(source.motion.speed / globalSpeed).toFixed(2)}</span>
+                              </label>
+                              <input
+                                type="range"
+                                min="0"
+                                max={source.motion.path === MotionPath.Circular ? Math.floor(globalSpeed * 9.5) / 10 : globalSpeed * 2}
+                                step="0.1"
+                                value={source.motion.speed}
+                                onChange={(e) => updateMotion(source, { speed: parseFloat(e.target.value) })}
+                              />
+                            </div>
+
+                            {source.motion.path === MotionPath.Circular && (
+                              <div className="control-group">
+                                <label>Radius (m) <span>{source.motion.radius.toFixed(1)}</span></label>
+                                <input
+                                  type="range"
+                                  min="1"
+                                  max="15"
+                                  step="0.5"
+                                  value={source.motion.radius}
+                                  onChange={(e) => updateMotion(source, { radius: parseFloat(e.target.value) })}
+                                />
+                              </div>
+                            )}
+
+                            <div className="control-group">
+                              <label>
+                                {source.motion.path === MotionPath.Linear ? 'Richtung' : 'Startwinkel'} (°)
+                                <span>{Math.round(source.motion.direction * 180 / Math.PI)}</span>
+                              </label>
+                              <input
+                                type="range"
+                                min="0"
+                                max="360"
+                                step="5"
+                                value={Math.round(source.motion.direction * 180 / Math.PI)}
+                                onChange={(e) => updateMotion(source, { direction: parseFloat(e.target.value) * Math.PI / 180 })}
+                              />
+                            </div>
+                          </>
+                        )}
+                      </>
+                    )}
+                  </div>
+                );
+              })}
             </div>
           </div>
 
+          <TimeControls
+            timeRef={timeRef}
+            sources={simulatedSources}
+            timeScale={timeScale}
+            onTimeScale={setTimeScale}
+            reversible={solver === SolverMode.Analytic}
+            maxStep={solver === SolverMode.Numerical ? FDTD_MAX_SUBSTEPS * fdtdTimeStep(medium) : Infinity}
+            onPause={() => setIsPlaying(false)}
+          />
+
           <div className="actions">
             <button className="btn btn-secondary" onClick={addSource} disabled={sources.length >= MAX_SOURCES} style={{flex: 1}}>
               <Plus size={20} /> Erreger
@@ -1160,6 +5052,9 @@ const App = () => {
             <button className="btn" onClick={() => setIsPlaying(!isPlaying)} title={isPlaying ? "Pause" : "Play"}>
               {isPlaying ? <Pause size={20} /> : <Play size={20} />}
             </button>
+            <button className="btn btn-secondary" onClick={() => setRecordDialogOpen(true)} title="Aufnahme als Video oder GIF">
+              <Video size={20} />
+            </button>
             <button className="btn btn-secondary" onClick={resetTime} title="Zeit zurücksetzen">
                <RotateCcw size={20} />
             </button>
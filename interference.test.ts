@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import {
+  INTERFERENCE_CONTRAST, contourGridAround, incoherentIntensity, interferenceLines, wavelength,
+} from './interference';
+import { SCENE_PRESETS } from './presets';
+import { Falloff, Medium, WaveSource, sampleField } from './waveField';
+
+type Point = [number, number];
+
+const medium = (overrides: Partial<Medium> = {}): Medium => ({
+  speed: 5, falloff: Falloff.None, absorption: 0, walls: [], barriers: [], regions: [], ...overrides,
+});
+
+const source = (id: string, x: number, y: number, overrides: Partial<WaveSource> = {}): WaveSource => ({
+  id, x, y, amplitude: 1, frequency: 4, phase: 0, visible: true, ...overrides,
+});
+
+const envelope = (sources: WaveSource[], m: Medium, [x, y]: Point) => sampleField(sources, m, x, y, 0).amplitude;
+
+// Envelope at the midpoint of each traced segment and on both sides of it,
+// `offset` along the segment normal
+const crossProfiles = (segments: Point[], sources: WaveSource[], m: Medium, offset: number) => {
+  const profiles: Array<{ at: Point, center: number, sides: [number, number] }> = [];
+  for (let k = 0; k < segments.length; k += 2) {
+    const [[x1, y1], [x2, y2]] = [segments[k], segments[k + 1]];
+    const length = Math.hypot(x2 - x1, y2 - y1);
+    if (length < 1e-9) continue;
+    const nx = -(y2 - y1) / length * offset;
+    const ny = (x2 - x1) / length * offset;
+    const at: Point = [(x1 + x2) / 2, (y1 + y2) / 2];
+    profiles.push({
+      at,
+      center: envelope(sources, m, at),
+      sides: [envelope(sources, m, [at[0] + nx, at[1] + ny]), envelope(sources, m, [at[0] - nx, at[1] - ny])],
+    });
+  }
+  return profiles;
+};
+
+describe('interferenceLines', () => {
+  it('traces cancellation and full reinforcement for two coherent sources', () => {
+    const sources = [source('a', -3, 0), source('b', 3, 0)];
+    const m = medium();
+    const lines = interferenceLines(sources, m, contourGridAround(sources, 101), 0);
+    expect(lines.nodal.length).toBeGreaterThan(0);
+    expect(lines.antinodal.length).toBeGreaterThan(0);
+    for (const p of lines.nodal) expect(envelope(sources, m, p)).toBeLessThan(0.05);
+    for (const p of lines.antinodal) expect(envelope(sources, m, p)).toBeGreaterThan(1.95);
+  });
+
+  it('puts the nodal lines of two coherent sources on half-integer path differences', () => {
+    const sources = [source('a', -3, 0), source('b', 3, 0, { phase: 1 })];
+    const m = medium();
+    const lambda = wavelength(sources[0], m);
+    const delta = (sources[0].phase - sources[1].phase) / (2 * Math.PI);
+    const lines = interferenceLines(sources, m, contourGridAround(sources, 101), 0);
+    for (const [x, y] of lines.nodal) {
+      const order = (Math.hypot(x + 3, y) - Math.hypot(x - 3, y)) / lambda - delta;
+      expect(Math.abs(order - Math.round(order - 0.5) - 0.5)).toBeLessThan(0.02);
+    }
+  });
+
+  it('only marks real minima and maxima of the envelope for three sources', () => {
+    const sources = [source('a', -3, 0), source('b', 3, 0), source('c', 0, 4)];
+    const m = medium();
+    const lines = interferenceLines(sources, m, contourGridAround(sources, 101), 0);
+    expect(lines.nodal.length).toBeGreaterThan(0);
+    expect(lines.antinodal.length).toBeGreaterThan(0);
+
+    for (const { at, center, sides } of crossProfiles(lines.nodal, sources, m, 0.3)) {
+      const reference = incoherentIntensity(sources, m, at[0], at[1], 0);
+      expect(center * center).toBeLessThan((1 - INTERFERENCE_CONTRAST) * reference * 1.2);
+      expect(center).toBeLessThan(Math.min(...sides) + 1e-3);
+    }
+    // Around the peak where all three meet the ridges have no direction,
+    // only the reinforcement is checked
+    for (const [x, y] of lines.antinodal) {
+      const center = envelope(sources, m, [x, y]);
+      expect(center * center).toBeGreaterThan((1 + INTERFERENCE_CONTRAST) * incoherentIntensity(sources, m, x, y, 0) * 0.8);
+    }
+  });
+
+  it('keeps the nodal lines of the array presets out of strong field', () => {
+    for (const id of ['phased-array', 'ring-focus']) {
+      const preset = SCENE_PRESETS.find(p => p.id === id)!;
+      const sources = preset.sources();
+      const m = medium({ speed: preset.globalSpeed });
+      const full = sources.reduce((sum, s) => sum + s.amplitude, 0);
+      const lines = interferenceLines(sources, m, contourGridAround(sources, 101), 0);
+      expect(lines.nodal.length).toBeGreaterThan(0);
+      for (const p of lines.nodal) expect(envelope(sources, m, p)).toBeLessThan(0.3 * full);
+    }
+  });
+
+  it('skips the neighbourhood of the sources', () => {
+    const sources = [source('a', -3, 0), source('b', 3, 0)];
+    const lines = interferenceLines(sources, medium({ falloff: Falloff.Cylindrical }), contourGridAround(sources, 101), 0);
+    for (const [x, y] of [...lines.nodal, ...lines.antinodal]) {
+      for (const s of sources) expect(Math.hypot(x - s.x, y - s.y)).toBeGreaterThan(1);
+    }
+  });
+});
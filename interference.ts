@@ -0,0 +1,237 @@
+import { Dispersion, FALLOFF_REFERENCE_DISTANCE, GRAVITY, MIN_SPEED, Medium, WaveSource, Waveform, isMoving, sampleField } from './waveField';
+
+// Nodal and antinodal lines.
+//
+// The computed lines follow the intensity I = A^2 of the field, A the
+// envelope of the phasor sum (FieldSample.amplitude): nodal lines run along
+// its valleys, antinodal lines along its ridges. There the gradient of I has
+// no component along the direction of strongest curvature; the zero
+// crossings of that component are traced with marching squares and told
+// apart by the sign of the curvature. Only lines with real interference are
+// kept: I must lie at least INTERFERENCE_CONTRAST * I0 below (nodal) or
+// above (antinodal) the intensity I0 the sources would give without
+// interference, the sum of their single intensities.
+// For two sources these are the lines where the phase difference is PI and
+// 0. For two coherent sources the theory predicts hyperbolas with the
+// sources as foci: r1 - r2 = (m + delta) * lambda, integer m for antinodal
+// and half-integer m for nodal lines, delta from the source phases.
+
+// Least interference term |I - I0| / I0 on a traced line
+export const INTERFERENCE_CONTRAST = 0.5;
+
+export interface ContourGrid {
+  x0: number; // first sample (m)
+  y0: number;
+  cell: number; // spacing (m)
+  nx: number;
+  ny: number;
+}
+
+type Point = [number, number];
+
+export interface InterferenceLines {
+  nodal: Point[];     // segments, consecutive point pairs
+  antinodal: Point[];
+}
+
+export interface Hyperbola {
+  order: number; // m, half-integer for nodal lines
+  nodal: boolean;
+  points: Point[];
+}
+
+/**
+ * Square grid of n x n samples covering the visible sources with a margin
+ */
+export function contourGridAround(sources: WaveSource[], n = 201, margin = 10, minHalfSize = 20): ContourGrid {
+  const visible = sources.filter(s => s.visible);
+  const xs = visible.map(s => s.x);
+  const ys = visible.map(s => s.y);
+  const cx = visible.length ? (Math.min(...xs) + Math.max(...xs)) / 2 : 0;
+  const cy = visible.length ? (Math.min(...ys) + Math.max(...ys)) / 2 : 0;
+  const span = visible.length ? Math.max(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys)) : 0;
+  const half = Math.max(minHalfSize, span / 2 + margin);
+  return { x0: cx - half, y0: cy - half, cell: 2 * half / (n - 1), nx: n, ny: n };
+}
+
+/**
+ * Intensity I0 of the field without interference: the sum of the squared
+ * envelopes of the single sources
+ */
+export function incoherentIntensity(sources: WaveSource[], medium: Medium, x: number, y: number, t: number): number {
+  return sources.reduce((sum, s) => {
+    if (!s.visible) return sum;
+    const { amplitude } = sampleField([s], medium, x, y, t);
+    return sum + amplitude * amplitude;
+  }, 0);
+}
+
+/**
+ * Nodal and antinodal segments of the analytic field at time t. Saddle
+ * cells are resolved with the cell average. The envelope has a kink at the
+ * sources and where the falloff sets in, cells close to a source are left
+ * out.
+ */
+export function interferenceLines(sources: WaveSource[], medium: Medium, grid: ContourGrid, t: number): InterferenceLines {
+  const { nx, ny, cell } = grid;
+  const intensity = new Float64Array(nx * ny);
+  for (let j = 0; j < ny; j++) {
+    for (let i = 0; i < nx; i++) {
+      const { amplitude } = sampleField(sources, medium, grid.x0 + i * cell, grid.y0 + j * cell, t);
+      intensity[j * nx + i] = amplitude * amplitude;
+    }
+  }
+
+  // Per inner sample: direction of the strongest curvature (unit vector),
+  // the curvature along it and the gradient component along it. Central
+  // differences in grid units, only signs and directions matter.
+  const dirX = new Float64Array(nx * ny);
+  const dirY = new Float64Array(nx * ny);
+  const curvature = new Float64Array(nx * ny);
+  const slope = new Float64Array(nx * ny);
+  const at = (i: number, j: number) => intensity[j * nx + i];
+  for (let j = 1; j < ny - 1; j++) {
+    for (let i = 1; i < nx - 1; i++) {
+      const gx = (at(i + 1, j) - at(i - 1, j)) / 2;
+      const gy = (at(i, j + 1) - at(i, j - 1)) / 2;
+      const hxx = at(i + 1, j) - 2 * at(i, j) + at(i - 1, j);
+      const hyy = at(i, j + 1) - 2 * at(i, j) + at(i, j - 1);
+      const hxy = (at(i + 1, j + 1) - at(i - 1, j + 1) - at(i + 1, j - 1) + at(i - 1, j - 1)) / 4;
+      // Eigenvalue of the Hessian with the larger magnitude and its eigenvector
+      const mean = (hxx + hyy) / 2;
+      const spread = Math.hypot((hxx - hyy) / 2, hxy);
+      const mu = Math.abs(mean + spread) >= Math.abs(mean - spread) ? mean + spread : mean - spread;
+      let ex = hxy;
+      let ey = mu - hxx;
+      if (Math.hypot(mu - hyy, hxy) > Math.hypot(ex, ey)) {
+        ex = mu - hyy;
+        ey = hxy;
+      }
+      const length = Math.hypot(ex, ey) || 1;
+      const k = j * nx + i;
+      dirX[k] = ex / length;
+      dirY[k] = ey / length;
+      curvature[k] = mu;
+      slope[k] = (gx * ex + gy * ey) / length;
+    }
+  }
+
+  const visible = sources.filter(s => s.visible);
+  const nearSource = (x: number, y: number) =>
+    visible.some(s => Math.hypot(x - s.x, y - s.y) < FALLOFF_REFERENCE_DISTANCE + 2 * cell);
+
+  const lines: InterferenceLines = { nodal: [], antinodal: [] };
+  // Corners counter-clockwise from the lower left, edges k join corner k and k + 1
+  const corner = [[0, 0], [1, 0], [1, 1], [0, 1]];
+  for (let j = 1; j < ny - 2; j++) {
+    for (let i = 1; i < nx - 2; i++) {
+      const index = corner.map(([di, dj]) => (j + dj) * nx + i + di);
+      // The eigenvectors have no sign, orient them along the first corner
+      const v = index.map(k => dirX[k] * dirX[index[0]] + dirY[k] * dirY[index[0]] < 0 ? -slope[k] : slope[k]);
+      const positive = v.map(value => value >= 0);
+      const crossings: Point[] = [];
+      for (let k = 0; k < 4; k++) {
+        const l = (k + 1) % 4;
+        if (positive[k] === positive[l]) continue;
+        const f = v[k] / (v[k] - v[l]);
+        const x = i + corner[k][0] + (corner[l][0] - corner[k][0]) * f;
+        const y = j + corner[k][1] + (corner[l][1] - corner[k][1]) * f;
+        crossings.push([grid.x0 + x * cell, grid.y0 + y * cell]);
+      }
+      if (crossings.length === 0) continue;
+
+      const cx = grid.x0 + (i + 0.5) * cell;
+      const cy = grid.y0 + (j + 0.5) * cell;
+      if (nearSource(cx, cy)) continue;
+      const valley = index.reduce((sum, k) => sum + curvature[k], 0) > 0;
+      const cellIntensity = index.reduce((sum, k) => sum + intensity[k], 0) / 4;
+      const reference = incoherentIntensity(sources, medium, cx, cy, t);
+      const contrast = valley ? reference - cellIntensity : cellIntensity - reference;
+      if (reference <= 0 || contrast < INTERFERENCE_CONTRAST * reference) continue;
+
+      const target = valley ? lines.nodal : lines.antinodal;
+      if (crossings.length === 2) {
+        target.push(crossings[0], crossings[1]);
+      } else {
+        // Saddle: the corners of the other sign than the center are cut off
+        const centerPositive = v.reduce((sum, value) => sum + value, 0) >= 0;
+        const joined = centerPositive === positive[0] ? [0, 1, 2, 3] : [1, 2, 3, 0];
+        target.push(crossings[joined[0]], crossings[joined[1]], crossings[joined[2]], crossings[joined[3]]);
+      }
+    }
+  }
+  return lines;
+}
+
+/**
+ * Wavelength of a sine source in the open medium (m)
+ */
+export function wavelength(source: WaveSource, medium: Medium): number {
+  const omega = Math.max(source.frequency, 1e-6);
+  if (source.dispersion === Dispersion.DeepWater) return 2 * Math.PI * GRAVITY / (omega * omega);
+  return 2 * Math.PI * Math.max(MIN_SPEED, medium.speed) / omega;
+}
+
+const isSteady = (s: WaveSource) =>
+  !isMoving(s) && (!s.emission || (s.emission.waveform === Waveform.Sine && s.emission.stop === Infinity));
+
+/**
+ * Whether the phase differences, and with them the lines, stay constant:
+ * resting steady sources of one (fundamental) frequency
+ */
+export function isStationary(sources: WaveSource[]): boolean {
+  const visible = sources.filter(s => s.visible);
+  return visible.every(s => isSteady(s) && Math.abs(s.frequency - visible[0].frequency) < 1e-9);
+}
+
+/**
+ * The two visible sources if they are coherent: resting, same frequency
+ * and dispersion, steady sine since t = -infinity. Null otherwise.
+ */
+export function coherentPair(sources: WaveSource[]): [WaveSource, WaveSource] | null {
+  const visible = sources.filter(s => s.visible);
+  if (visible.length !== 2) return null;
+  const [a, b] = visible;
+  if (!isSteady(a) || !isSteady(b)) return null;
+  if (Math.abs(a.frequency - b.frequency) > 1e-9 || (a.dispersion ?? Dispersion.None) !== (b.dispersion ?? Dispersion.None)) return null;
+  if (Math.hypot(a.x - b.x, a.y - b.y) < 1e-6) return null;
+  return [a, b];
+}
+
+/**
+ * Theoretical nodal and antinodal hyperbolas of a coherent pair, traced up
+ * to `radius` from the midpoint, with
+ * r_a - r_b = (m + (phi_a - phi_b) / 2pi) * lambda
+ */
+export function interferenceHyperbolas(a: WaveSource, b: WaveSource, medium: Medium, radius: number, samples = 48): Hyperbola[] {
+  const lambda = wavelength(a, medium);
+  const separation = Math.hypot(b.x - a.x, b.y - a.y);
+  const focus = separation / 2;
+  const cx = (a.x + b.x) / 2;
+  const cy = (a.y + b.y) / 2;
+  // Unit vector from a to b and its normal
+  const ex = (b.x - a.x) / separation;
+  const ey = (b.y - a.y) / separation;
+  const delta = (a.phase - b.phase) / (2 * Math.PI);
+
+  const hyperbolas: Hyperbola[] = [];
+  const lowest = Math.ceil(2 * (-separation / lambda - delta)) / 2;
+  for (let m = lowest; (m + delta) * lambda < separation; m += 0.5) {
+    const difference = (m + delta) * lambda; // r_a - r_b
+    if (Math.abs(difference) >= separation - 1e-9) continue;
+    const semiMajor = Math.abs(difference) / 2;
+    const semiMinor = Math.sqrt(focus * focus - semiMajor * semiMajor);
+    // r_a > r_b: the branch around b
+    const side = Math.sign(difference);
+    const reach = Math.asinh(radius / Math.max(semiMinor, 1e-6));
+    const points: Point[] = [];
+    for (let k = 0; k <= samples; k++) {
+      const s = -reach + 2 * reach * k / samples;
+      const u = side * semiMajor * Math.cosh(s);
+      const v = semiMinor * Math.sinh(s);
+      points.push([cx + u * ex - v * ey, cy + u * ey + v * ex]);
+    }
+    hyperbolas.push({ order: m, nodal: !Number.isInteger(m), points });
+  }
+  return hyperbolas;
+}
@@ -0,0 +1,92 @@
+import { WaveSource } from './waveField';
+
+// Built-in gallery of classic interference experiments.
+// Each preset only sets up the sources and the propagation speed.
+
+export interface ScenePreset {
+  id: string;
+  name: string;
+  caption: string;
+  globalSpeed: number;
+  sources: () => WaveSource[];
+}
+
+const source = (index: number, x: number, y: number, params: Partial<WaveSource> = {}): WaveSource => ({
+  id: String(index + 1),
+  x,
+  y,
+  amplitude: 1.0,
+  frequency: 2.0,
+  phase: 0.0,
+  visible: true,
+  ...params,
+});
+
+// Evenly spaced sources along the x axis, centered at (0, y)
+const line = (count: number, spacing: number, y: number, params: (i: number) => Partial<WaveSource> = () => ({})) =>
+  Array.from({ length: count }, (_, i) => source(i, (i - (count - 1) / 2) * spacing, y, params(i)));
+
+// Phased array: omega = 4, c = 5 -> k = 0.8 rad/m, beam steered 30° towards +x
+const PHASED_ARRAY_K = 4.0 / 5.0;
+const PHASED_ARRAY_ANGLE = Math.PI / 6;
+
+export const SCENE_PRESETS: ScenePreset[] = [
+  {
+    id: 'two-point',
+    name: 'Zwei Erreger',
+    caption: 'Zwei gleichphasige Erreger im Abstand von 6 m. Auf Hyperbeln mit gleichem Gangunterschied Δs = m·λ entstehen Maxima, dazwischen Knotenlinien.',
+    globalSpeed: 5.0,
+    sources: () => [
+      source(0, -3, 0, { frequency: 4.0 }),
+      source(1, 3, 0, { frequency: 4.0 }),
+    ],
+  },
+  {
+    id: 'phased-array',
+    name: 'Phased Array',
+    caption: '8 Erreger im Abstand von 1 m mit fester Phasenverschiebung Δφ = −k·d·sin 30° zwischen Nachbarn. Die Hauptkeule wird dadurch um 30° geschwenkt.',
+    globalSpeed: 5.0,
+    sources: () => line(8, 1, 0, i => ({
+      frequency: 4.0,
+      amplitude: 0.5,
+      phase: ((-i * PHASED_ARRAY_K * Math.sin(PHASED_ARRAY_ANGLE)) % (2 * Math.PI) + 2 * Math.PI) % (2 * Math.PI),
+    })),
+  },
+  {
+    id: 'standing-wave',
+    name: 'Stehende Welle',
+    caption: 'Zwei gegenüberliegende Erreger gleicher Frequenz. Auf der Verbindungslinie bildet sich eine stehende Welle mit Knoten im Abstand λ/2.',
+    globalSpeed: 5.0,
+    sources: () => [
+      source(0, -15, 0, { frequency: 3.0 }),
+      source(1, 15, 0, { frequency: 3.0 }),
+    ],
+  },
+  {
+    id: 'huygens-line',
+    name: 'Huygens-Linie',
+    caption: 'Eine dichte Reihe gleichphasiger Elementarwellen-Erreger. Ihre Überlagerung nähert eine ebene Welle an (Huygenssches Prinzip).',
+    globalSpeed: 5.0,
+    sources: () => line(10, 1, -10, () => ({ frequency: 3.0, amplitude: 0.4 })),
+  },
+  {
+    id: 'beats',
+    name: 'Schwebung',
+    caption: 'Zwei nahe beieinander liegende Erreger mit ω = 2,0 und 2,2 rad/s. Die Amplitude schwillt mit der Schwebungsfrequenz Δω = 0,2 rad/s an und ab.',
+    globalSpeed: 5.0,
+    sources: () => [
+      source(0, -0.5, 0, { frequency: 2.0 }),
+      source(1, 0.5, 0, { frequency: 2.2 }),
+    ],
+  },
+  {
+    id: 'ring-focus',
+    name: 'Ringfokus',
+    caption: '10 gleichphasige Erreger auf einem Kreis mit 12 m Radius. Alle Wellen treffen gleichzeitig im Mittelpunkt ein und bilden dort einen Fokus.',
+    globalSpeed: 5.0,
+    sources: () => Array.from({ length: 10 }, (_, i) => {
+      const angle = (i / 10) * Math.PI * 2;
+      return source(i, 12 * Math.cos(angle), 12 * Math.sin(angle), { frequency: 3.0, amplitude: 0.5 });
+    }),
+  },
+];
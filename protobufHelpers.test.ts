@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SETTINGS_VERSION, SerializedState, deserializeSettings, serializeSettings } from './protobufHelpers';
+
+// Every value is exact in float32, so the round trip compares with toEqual
+const state = (): SerializedState => ({
+  sources: [
+    {
+      id: '1', x: -5, y: 0.5, amplitude: 1, frequency: 2, phase: 0.25, visible: true, groupId: '',
+      motion: { path: 1, speed: 2.5, direction: 0.5, radius: 0 },
+      emission: { waveform: 1, start: 1, stop: Infinity, width: 0.5 },
+      shape: { kind: 4, terms: 3, harmonics: [1, 0.5, 0.25] },
+      dispersion: 1,
+    },
+    { id: '2', x: 5, y: 0, amplitude: 0.5, frequency: 4, phase: 0, visible: false, groupId: 'g' },
+  ],
+  groups: [{ id: 'g', layout: 0, count: 1, rows: 1, spacing: 1, phaseStep: 0.5, x: 5, y: 0, rotation: 0, amplitude: 0.5, frequency: 4 }],
+  probes: [{ id: 'p', x: 1, y: -2 }],
+  section: { x1: -10, y1: 0, x2: 10, y2: 0 },
+  walls: [{ id: 'w', x1: 0, y1: -5, x2: 0, y2: 5, reflection: 0.75, phaseFlip: true }],
+  barriers: [{ id: 'b', x1: -8, y1: 4, x2: 8, y2: 4, openings: [{ offset: 6, width: 1 }, { offset: 10, width: 1 }] }],
+  regions: [{ id: 'z', points: [{ x: 0, y: 0 }, { x: 4, y: 0 }, { x: 4, y: 4 }], speed: 2.5 }],
+  solver: 1,
+  globalSpeed: 5,
+  falloff: 1,
+  absorption: 0.125,
+  appMode: 2,
+  paramMode: 3,
+});
+
+// A link shared before the version byte moved into protobufHelpers.ts: the
+// byte 0x01 written twice, then an AppSettings message with speed 5, app
+// mode 1, param mode 3 and two sources
+const LEGACY_V1_HASH = 'AQENAACgQBABGAMiHgoBMRUAAKDAHQAAAAAlAACAPy0AAABANQAAAAA4ASIeCgEyFQAAoEAdAAAAPyUAAAA/LQAAAEA1AADAPzgA';
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+describe('serializeSettings', () => {
+  it('prepends the current version byte', () => {
+    expect(SETTINGS_VERSION).toBe(0x02);
+    expect(serializeSettings(state())[0]).toBe(0x02);
+  });
+
+  it('round-trips every field through the current version', () => {
+    const result = deserializeSettings(serializeSettings(state()));
+    expect(result.ok).toBe(true);
+    if (result.ok === false) return;
+    expect(result.version).toBe(0x02);
+    // Missing messages come back as null, see applyState() in index.tsx
+    const expected = state();
+    expected.sources[1] = { ...expected.sources[1], motion: null, emission: null, shape: null, dispersion: 0 } as typeof expected.sources[1];
+    expect(result.state).toEqual(expected);
+  });
+});
+
+describe('deserializeSettings', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('upgrades a legacy 0x01 link with its doubled version byte', () => {
+    const result = deserializeSettings(fromBase64(LEGACY_V1_HASH));
+    expect(result.ok).toBe(true);
+    if (result.ok === false) return;
+    expect(result.version).toBe(0x01);
+    expect(result.state.globalSpeed).toBe(5);
+    expect(result.state.appMode).toBe(1);
+    expect(result.state.paramMode).toBe(3);
+    expect(result.state.sources.map(({ id, x, y, amplitude, frequency, phase, visible }) => ({ id, x, y, amplitude, frequency, phase, visible }))).toEqual([
+      { id: '1', x: -5, y: 0, amplitude: 1, frequency: 2, phase: 0, visible: true },
+      { id: '2', x: 5, y: 0.5, amplitude: 0.5, frequency: 2, phase: 1.5, visible: false },
+    ]);
+    // Added after v1, filled in with the protobuf defaults
+    expect(result.state.probes).toEqual([]);
+    expect(result.state.walls).toEqual([]);
+    expect(result.state.solver).toBe(0);
+    expect(result.state.absorption).toBe(0);
+  });
+
+  it('rejects a 0x01 payload without the inner version byte', () => {
+    const bytes = serializeSettings(state());
+    bytes[0] = 0x01;
+    expect(deserializeSettings(bytes)).toEqual({ ok: false, error: 'missing inner version byte' });
+  });
+
+  it('rejects unknown versions and empty buffers', () => {
+    const bytes = serializeSettings(state());
+    bytes[0] = 0x03;
+    expect(deserializeSettings(bytes)).toEqual({ ok: false, error: 'unsupported version 3' });
+    expect(deserializeSettings(new Uint8Array(0))).toEqual({ ok: false, error: 'empty' });
+  });
+});
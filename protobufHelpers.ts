@@ -12,6 +12,104 @@ const jsonDescriptor = {
         frequency: { type: 'float', id: 5 },
         phase: { type: 'float', id: 6 },
         visible: { type: 'bool', id: 7 },
+        groupId: { type: 'string', id: 8 },
+        motion: { type: 'SourceMotion', id: 9 },
+        emission: { type: 'SourceEmission', id: 10 },
+        shape: { type: 'SourceShape', id: 11 },
+        dispersion: { type: 'int32', id: 12 },
+      },
+    },
+    SourceShape: {
+      fields: {
+        kind: { type: 'int32', id: 1 },
+        terms: { type: 'int32', id: 2 },
+        harmonics: { rule: 'repeated', type: 'float', id: 3 },
+      },
+    },
+    SourceEmission: {
+      fields: {
+        waveform: { type: 'int32', id: 1 },
+        start: { type: 'float', id: 2 },
+        stop: { type: 'float', id: 3 },
+        width: { type: 'float', id: 4 },
+      },
+    },
+    SourceMotion: {
+      fields: {
+        path: { type: 'int32', id: 1 },
+        speed: { type: 'float', id: 2 },
+        direction: { type: 'float', id: 3 },
+        radius: { type: 'float', id: 4 },
+      },
+    },
+    SourceGroup: {
+      fields: {
+        id: { type: 'string', id: 1 },
+        layout: { type: 'int32', id: 2 },
+        count: { type: 'int32', id: 3 },
+        rows: { type: 'int32', id: 4 },
+        spacing: { type: 'float', id: 5 },
+        phaseStep: { type: 'float', id: 6 },
+        x: { type: 'float', id: 7 },
+        y: { type: 'float', id: 8 },
+        rotation: { type: 'float', id: 9 },
+        amplitude: { type: 'float', id: 10 },
+        frequency: { type: 'float', id: 11 },
+      },
+    },
+    Probe: {
+      fields: {
+        id: { type: 'string', id: 1 },
+        x: { type: 'float', id: 2 },
+        y: { type: 'float', id: 3 },
+      },
+    },
+    Segment: {
+      fields: {
+        x1: { type: 'float', id: 1 },
+        y1: { type: 'float', id: 2 },
+        x2: { type: 'float', id: 3 },
+        y2: { type: 'float', id: 4 },
+      },
+    },
+    Wall: {
+      fields: {
+        id: { type: 'string', id: 1 },
+        x1: { type: 'float', id: 2 },
+        y1: { type: 'float', id: 3 },
+        x2: { type: 'float', id: 4 },
+        y2: { type: 'float', id: 5 },
+        reflection: { type: 'float', id: 6 },
+        phaseFlip: { type: 'bool', id: 7 },
+      },
+    },
+    BarrierOpening: {
+      fields: {
+        offset: { type: 'float', id: 1 },
+        width: { type: 'float', id: 2 },
+      },
+    },
+    Barrier: {
+      fields: {
+        id: { type: 'string', id: 1 },
+        x1: { type: 'float', id: 2 },
+        y1: { type: 'float', id: 3 },
+        x2: { type: 'float', id: 4 },
+        y2: { type: 'float', id: 5 },
+        openings: { rule: 'repeated', type: 'BarrierOpening', id: 6 },
+      },
+    },
+    Point: {
+      fields: {
+        x: { type: 'float', id: 1 },
+        y: { type: 'float', id: 2 },
+      },
+    },
+    SpeedRegion: {
+      fields: {
+        id: { type: 'string', id: 1 },
+        points: { rule: 'repeated', type: 'Point', id: 2 },
+        speed: { type: 'float', id: 3 },
       },
     },
     AppSettings: {
@@ -20,6 +118,15 @@ const jsonDescriptor = {
         appMode: { type: 'int32', id: 2 },
         paramMode: { type: 'int32', id: 3 },
         sources: { rule: 'repeated', type: 'WaveSource', id: 4 },
+        probes: { rule: 'repeated', type: 'Probe', id: 5 },
+        section: { type: 'Segment', id: 6 },
+        groups: { rule: 'repeated', type: 'SourceGroup', id: 7 },
+        falloff: { type: 'int32', id: 8 },
+        absorption: { type: 'float', id: 9 },
+        walls: { rule: 'repeated', type: 'Wall', id: 10 },
+        barriers: { rule: 'repeated', type: 'Barrier', id: 11 },
+        solver: { type: 'int32', id: 12 },
+        regions: { rule: 'repeated', type: 'SpeedRegion', id: 13 },
       },
     },
   },
@@ -31,8 +138,12 @@ const root = protobuf.Root.fromJSON(jsonDescriptor);
 // Get the AppSettings type for encode/decode
 const AppSettingsType = root.lookupType('AppSettings');
 
-// Version byte: 0x01 for current format (protobuf)
-const SETTINGS_VERSION = 0x01;
+// Version byte prepended to every serialized settings buffer.
+// This module is the only place that reads or writes it.
+//   0x01: legacy links, the version byte was written twice
+//         (once here and once more by the URL encoder)
+//   0x02: current format, a single version byte + AppSettings message
+export const SETTINGS_VERSION = 0x02;
 
 export interface SerializedState {
   sources: Array<{
@@ -43,12 +154,114 @@ export interface SerializedState {
     frequency: number;
     phase: number;
     visible: boolean;
+    groupId?: string;
+    motion?: {
+      path: number;
+      speed: number;
+      direction: number;
+      radius: number;
+    };
+    emission?: {
+      waveform: number;
+      start: number;
+      stop: number; // Infinity = endless
+      width: number;
+    };
+    shape?: {
+      kind: number;
+      terms: number;
+      harmonics: number[];
+    };
+    dispersion?: number;
+  }>;
+  groups: Array<{
+    id: string;
+    layout: number;
+    count: number;
+    rows: number;
+    spacing: number;
+    phaseStep: number;
+    x: number;
+    y: number;
+    rotation: number;
+    amplitude: number;
+    frequency: number;
+  }>;
+  probes: Array<{
+    id: string;
+    x: number;
+    y: number;
+  }>;
+  section: {
+    x1: number;
+    y1: number;
+    x2: number;
+    y2: number;
+  } | null;
+  walls: Array<{
+    id: string;
+    x1: number;
+    y1: number;
+    x2: number;
+    y2: number;
+    reflection: number;
+    phaseFlip: boolean;
   }>;
+  barriers: Array<{
+    id: string;
+    x1: number;
+    y1: number;
+    x2: number;
+    y2: number;
+    openings: Array<{ offset: number; width: number }>;
+  }>;
+  regions: Array<{
+    id: string;
+    points: Array<{ x: number; y: number }>;
+    speed: number;
+  }>;
+  solver: number;
   globalSpeed: number;
+  falloff: number;
+  absorption: number;
   appMode: number;
   paramMode: number;
 }
 
+export type DeserializeResult =
+  | { ok: true; state: SerializedState; version: number }
+  | { ok: false; error: string };
+
+const decodeMessage = (payload: Uint8Array): SerializedState => {
+  const message = AppSettingsType.decode(payload);
+  return AppSettingsType.toObject(message, {
+    longs: Number,
+    enums: Number,
+    bytes: String,
+    defaults: true,
+    arrays: true,
+    objects: true,
+  }) as unknown as SerializedState;
+};
+
+/**
+ * Decoders for every version that was ever written, keyed by version byte.
+ * Each one receives the payload after the version byte and returns the
+ * current SerializedState, upgrading older schemas where needed.
+ * Never remove an entry, shared links live forever.
+ */
+const SETTINGS_DECODERS: Record<number, (payload: Uint8Array) => SerializedState> = {
+  0x01: (payload) => {
+    // Strip the duplicated inner version byte
+    if (payload[0] !== 0x01) throw new Error('missing inner version byte');
+    // Probes, the section line, source groups, the attenuation settings,
+    // walls, barriers, the solver mode, speed regions, moving sources,
+    // switch-on times, wave shapes and dispersion were added after v1 links
+    // were shared, protobuf defaults fill them in.
+    return decodeMessage(payload.slice(1));
+  },
+  0x02: decodeMessage,
+};
 
 /**
  * Serialize settings to binary with version byte prepended
@@ -72,31 +285,22 @@ export function serializeSettings(state: SerializedState): Uint8Array {
 }
 
 /**
- * Deserialize binary settings (with version byte)
+ * Deserialize binary settings (with version byte) of any known version
  */
-export function deserializeSettings(buffer: Uint8Array): SerializedState | null {
+export function deserializeSettings(buffer: Uint8Array): DeserializeResult {
+  if (buffer.length < 1) return { ok: false, error: 'empty' };
+
+  const version = buffer[0];
+  const decoder = SETTINGS_DECODERS[version];
+  if (!decoder) {
+    console.warn('[protobuf] unsupported version:', version);
+    return { ok: false, error: `unsupported version ${version}` };
+  }
+
   try {
-    if (buffer.length < 2) return null;
-    
-    const version = buffer[0];
-    if (version !== SETTINGS_VERSION) {
-      console.warn('[protobuf] unsupported version:', version);
-      return null;
-    }
-    
-    const payload = buffer.slice(1);
-    const message = AppSettingsType.decode(payload);
-    
-    return AppSettingsType.toObject(message, {
-      longs: Number,
-      enums: Number,
-      bytes: String,
-      defaults: true,
-      arrays: true,
-      objects: true,
-    }) as unknown as SerializedState;
+    return { ok: true, state: decoder(buffer.slice(1)), version };
   } catch (e) {
     console.error('[protobuf] deserialize error:', e);
-    return null;
+    return { ok: false, error: e instanceof Error ? e.message : String(e) };
   }
 }
@@ -0,0 +1,182 @@
+import { createGifEncoder } from './gifEncoder';
+import { MotionPath, WaveSource, isMoving } from './waveField';
+import { WebmCodec, createWebmMuxer } from './webmMuxer';
+
+// Frame-exact recording of the simulation.
+//
+// The caller renders the scene at a given simulation time and hands back the
+// canvas; frames are taken at t0 + k / fps regardless of how long rendering
+// and encoding take, so the result plays at the true simulation speed.
+// WebM is encoded with WebCodecs (VP9, VP8 as fallback) and muxed by
+// webmMuxer.ts, GIF by gifEncoder.ts.
+
+export enum RecordingFormat {
+  WebM = 0,
+  Gif = 1
+}
+
+export enum RecordingLength {
+  Seconds = 0, // fixed duration
+  Periods = 1, // whole periods of the slowest source
+  Loop = 2     // common period of all sources, see loopDuration()
+}
+
+export interface RecordingOptions {
+  format: RecordingFormat;
+  fps: number;
+  duration: number; // simulated seconds
+  maxWidth: number; // frames are scaled down to this width (px)
+}
+
+// Longest common period searched for a seamless loop (s)
+export const MAX_LOOP_DURATION = 60;
+
+// Allowed phase mismatch at the loop seam, in periods of each source
+const LOOP_TOLERANCE = 0.01;
+
+// WebM keyframe interval (s)
+const KEYFRAME_INTERVAL = 2;
+
+const WEBM_CODECS: Array<{ config: string, track: WebmCodec }> = [
+  { config: 'vp09.00.10.08', track: 'V_VP9' },
+  { config: 'vp8', track: 'V_VP8' },
+];
+
+export const supportsWebm = () => typeof VideoEncoder !== 'undefined';
+
+// Angular frequencies of everything that repeats in the scene, or null if
+// some source never repeats (straight path, switch-on times)
+function sceneFrequencies(sources: WaveSource[]): number[] | null {
+  const frequencies: number[] = [];
+  for (const source of sources.filter(s => s.visible)) {
+    if (source.emission) return null;
+    if (isMoving(source)) {
+      if (source.motion.path !== MotionPath.Circular) return null;
+      frequencies.push(source.motion.speed / Math.max(source.motion.radius, 1e-3));
+    }
+    // Harmonics are multiples of the fundamental and repeat with it
+    frequencies.push(source.frequency);
+  }
+  return frequencies;
+}
+
+/**
+ * Period of the slowest visible source (s), null without sources
+ */
+export function slowestPeriod(sources: WaveSource[]): number | null {
+  const frequencies = sources.filter(s => s.visible).map(s => s.frequency);
+  if (frequencies.length === 0) return null;
+  return 2 * Math.PI / Math.min(...frequencies);
+}
+
+/**
+ * Shortest duration after which all sources (and circular paths) are back
+ * in phase, i.e. a multiple of every period within LOOP_TOLERANCE. Null if
+ * the scene does not repeat or no such duration is below maxDuration.
+ * Every common period is a multiple of the slowest one, so only those are
+ * tried. The loop is seamless once the field has settled.
+ */
+export function loopDuration(sources: WaveSource[], maxDuration = MAX_LOOP_DURATION): number | null {
+  const frequencies = sceneFrequencies(sources);
+  if (!frequencies || frequencies.length === 0) return null;
+  const base = 2 * Math.PI / Math.min(...frequencies);
+  for (let k = 1; k * base <= maxDuration; k++) {
+    const duration = k * base;
+    const inPhase = frequencies.every(omega => {
+      const cycles = omega * duration / (2 * Math.PI);
+      return Math.abs(cycles - Math.round(cycles)) <= LOOP_TOLERANCE;
+    });
+    if (inPhase) return duration;
+  }
+  return null;
+}
+
+const nextTask = () => new Promise(resolve => setTimeout(resolve, 0));
+
+async function webmConfig(width: number, height: number, fps: number): Promise<{ config: VideoEncoderConfig, track: WebmCodec }> {
+  for (const codec of WEBM_CODECS) {
+    const config: VideoEncoderConfig = { codec: codec.config, width, height, framerate: fps, bitrate: width * height * fps * 0.2 };
+    const { supported } = await VideoEncoder.isConfigSupported(config);
+    if (supported) return { config, track: codec.track };
+  }
+  throw new Error('Dieser Browser kann weder VP9 noch VP8 kodieren.');
+}
+
+/**
+ * Record options.duration seconds of simulation starting at start.
+ * renderFrame(t) must render the scene at time t and return the canvas
+ * synchronously (before the drawing buffer is cleared). onProgress gets the
+ * finished fraction; aborting the signal rejects with an AbortError.
+ */
+export async function recordAnimation(
+  renderFrame: (t: number) => HTMLCanvasElement,
+  start: number,
+  options: RecordingOptions,
+  onProgress: (fraction: number) => void,
+  signal: AbortSignal
+): Promise<Blob> {
+  const frameCount = Math.max(1, Math.round(options.duration * options.fps));
+  // Frames split the duration evenly, a loop then ends one step before it restarts
+  const step = options.duration / frameCount;
+
+  const first = renderFrame(start);
+  const scale = Math.min(1, options.maxWidth / first.width);
+  // Even sizes, required by the VP8/VP9 chroma subsampling
+  const width = Math.max(2, Math.round(first.width * scale / 2) * 2);
+  const height = Math.max(2, Math.round(first.height * scale / 2) * 2);
+  const frame = document.createElement('canvas');
+  frame.width = width;
+  frame.height = height;
+  const context = frame.getContext('2d', { willReadFrequently: options.format === RecordingFormat.Gif });
+  if (!context) throw new Error('Kein 2D-Kontext für die Aufnahme verfügbar.');
+
+  const capture = (t: number) => {
+    context.drawImage(renderFrame(t), 0, 0, width, height);
+  };
+
+  if (options.format === RecordingFormat.Gif) {
+    const gif = createGifEncoder(width, height, Math.max(2, Math.round(100 * step)));
+    for (let k = 0; k < frameCount; k++) {
+      signal.throwIfAborted();
+      capture(start + k * step);
+      gif.addFrame(context.getImageData(0, 0, width, height).data);
+      onProgress((k + 1) / frameCount);
+      await nextTask();
+    }
+    return gif.finish();
+  }
+
+  const { config, track } = await webmConfig(width, height, options.fps);
+  const muxer = createWebmMuxer(width, height, track);
+  let failure: Error | null = null;
+  const encoder = new VideoEncoder({
+    output: chunk => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      muxer.addChunk(data, chunk.timestamp, chunk.duration ?? step * 1e6, chunk.type === 'key');
+    },
+    error: e => { failure = e; },
+  });
+  encoder.configure(config);
+  const keyframeEvery = Math.max(1, Math.round(KEYFRAME_INTERVAL * options.fps));
+
+  try {
+    for (let k = 0; k < frameCount; k++) {
+      signal.throwIfAborted();
+      if (failure) throw failure;
+      capture(start + k * step);
+      const video = new VideoFrame(frame, { timestamp: Math.round(k * step * 1e6), duration: Math.round(step * 1e6) });
+      encoder.encode(video, { keyFrame: k % keyframeEvery === 0 });
+      video.close();
+      onProgress((k + 1) / frameCount);
+      // Let the encoder catch up instead of queueing every frame
+      while (encoder.encodeQueueSize > 2) await nextTask();
+      await nextTask();
+    }
+    await encoder.flush();
+    if (failure) throw failure;
+  } finally {
+    if (encoder.state !== 'closed') encoder.close();
+  }
+  return muxer.finish();
+}
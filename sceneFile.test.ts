@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { SCENE_FILE_FORMAT, SceneState, exportScene, parseScene } from './sceneFile';
+import { MAX_SOURCES } from './waveField';
+
+const scene = (): SceneState => ({
+  appMode: 2,
+  paramMode: 3,
+  solver: 1,
+  globalSpeed: 5,
+  falloff: 1,
+  absorption: 0.02,
+  sources: [
+    {
+      id: '1', x: -5, y: 0.5, amplitude: 1, frequency: 2, phase: 0.25, visible: true,
+      motion: { path: 1, speed: 2.5, direction: 0.5, radius: 0 },
+      emission: { waveform: 0, start: 1, stop: Infinity, width: 1 },
+      shape: { kind: 4, terms: 3, harmonics: [1, 0.5, 0.25] },
+      dispersion: 1,
+    },
+    { id: 'g-0', x: 5, y: 0, amplitude: 0.5, frequency: 4, phase: 0, visible: false, groupId: 'g' },
+  ],
+  groups: [{ id: 'g', layout: 0, count: 1, rows: 1, spacing: 1, phaseStep: 0.5, x: 5, y: 0, rotation: 0, amplitude: 0.5, frequency: 4 }],
+  probes: [{ id: 'p', x: 1, y: -2 }],
+  section: { x1: -10, y1: 0, x2: 10, y2: 0 },
+  walls: [{ id: 'w', x1: 0, y1: -5, x2: 0, y2: 5, reflection: 0.75, phaseFlip: true }],
+  barriers: [{ id: 'b', x1: -8, y1: 4, x2: 8, y2: 4, openings: [{ offset: 6, width: 1 }] }],
+  regions: [{ id: 'z', points: [{ x: 0, y: 0 }, { x: 4, y: 0 }, { x: 4, y: 4 }], speed: 2.5 }],
+  camera: { position: [0, 20, 30], target: [0, 0, 0], zoom: 1 },
+});
+
+// Exported file of the scene as a plain object, to be broken by the tests
+const file = () => JSON.parse(exportScene(scene()));
+
+const errorsOf = (json: unknown) => {
+  const result = parseScene(JSON.stringify(json));
+  expect(result.ok).toBe(false);
+  return result.ok === false ? result.errors : [];
+};
+
+describe('parseScene', () => {
+  it('round-trips an exported scene', () => {
+    const text = exportScene(scene());
+    expect(JSON.parse(text).format).toBe(SCENE_FILE_FORMAT);
+    expect(parseScene(text)).toEqual({ ok: true, scene: scene() });
+  });
+
+  it('reports malformed fields with their path, all at once', () => {
+    const json = file();
+    json.sources[0].frequency = 'schnell';
+    json.sources[1].amplitude = -1;
+    json.walls[0].reflection = 2;
+    json.falloff = 'linear';
+    expect(errorsOf(json)).toEqual([
+      { path: 'falloff', message: 'muss einer von "none", "cylindrical", "spherical" sein' },
+      { path: 'sources[0].frequency', message: 'muss eine Zahl sein' },
+      { path: 'sources[1].amplitude', message: 'muss mindestens 0 sein' },
+      { path: 'walls[0].reflection', message: 'darf höchstens 1 sein' },
+    ]);
+  });
+
+  it('reports missing required fields and unknown ones', () => {
+    const json = file();
+    delete json.globalSpeed;
+    delete json.sources[0].x;
+    json.sources[0].colour = 'blau';
+    expect(errorsOf(json)).toEqual([
+      { path: 'globalSpeed', message: 'fehlt' },
+      { path: 'sources[0].colour', message: 'unbekanntes Feld' },
+      { path: 'sources[0].x', message: 'fehlt' },
+    ]);
+  });
+
+  it('fills in optional fields', () => {
+    const json = file();
+    for (const key of ['solver', 'falloff', 'absorption', 'groups', 'probes', 'section', 'walls', 'barriers', 'regions', 'camera']) delete json[key];
+    json.sources = [{ x: 1, y: 2, amplitude: 1, frequency: 2 }];
+    const result = parseScene(JSON.stringify(json));
+    expect(result.ok).toBe(true);
+    if (result.ok === false) return;
+    expect(result.scene.solver).toBe(0);
+    expect(result.scene.walls).toEqual([]);
+    expect(result.scene.sources[0]).toMatchObject({ x: 1, y: 2, phase: 0, visible: true });
+    expect(result.scene.sources[0].id).not.toBe('');
+  });
+
+  it('caps the number of sources at MAX_SOURCES', () => {
+    const json = file();
+    json.groups = [];
+    json.sources = Array.from({ length: MAX_SOURCES }, (_, i) => ({ id: String(i), x: i, y: 0, amplitude: 1, frequency: 2 }));
+    expect(parseScene(JSON.stringify(json)).ok).toBe(true);
+    json.sources.push({ id: 'extra', x: 0, y: 1, amplitude: 1, frequency: 2 });
+    expect(errorsOf(json)).toEqual([{ path: 'sources', message: `höchstens ${MAX_SOURCES} Erreger erlaubt` }]);
+  });
+
+  it('rejects text that is not JSON', () => {
+    const result = parseScene('{ "format": ');
+    expect(result.ok).toBe(false);
+    if (result.ok === true) return;
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0].path).toBe('');
+  });
+});
@@ -0,0 +1,477 @@
+import { SerializedState } from './protobufHelpers';
+import { MAX_BARRIERS, MAX_HARMONICS, MAX_REGION_VERTICES, MAX_SOURCES, MAX_SPEED_REGIONS, MAX_WALLS, MotionPath, WaveShape, isConvexPolygon } from './waveField';
+
+// Human-readable scene files (JSON) for saving and sharing experiments.
+// Unlike the URL hash these are meant to be read, edited and diffed, so
+// modes are stored by name and every field is validated on load.
+
+export const SCENE_FILE_FORMAT = 'wasserwellen-scene';
+export const SCENE_FILE_VERSION = 1;
+
+// Index = AppMode value
+const APP_MODE_NAMES = ['waves', 'params3d', 'params2d'];
+// Index = ParamMode value
+export const PARAM_MODE_NAMES = ['elongation', 'velocity', 'acceleration', 'amplitude', 'phase', 'intensity', 'energy', 'rms', 'wavelength'];
+// Index = ArrayLayout value
+const ARRAY_LAYOUT_NAMES = ['linear', 'circular', 'grid'];
+// Index = Falloff value
+const FALLOFF_NAMES = ['none', 'cylindrical', 'spherical'];
+// Index = SolverMode value
+const SOLVER_NAMES = ['analytic', 'numerical'];
+// Index = MotionPath value
+const MOTION_PATH_NAMES = ['static', 'linear', 'circular'];
+// Index = Waveform value
+const WAVEFORM_NAMES = ['sine', 'pulse', 'packet'];
+// Index = WaveShape value
+const SHAPE_NAMES = ['sine', 'square', 'triangle', 'sawtooth', 'custom'];
+// Index = Dispersion value
+const DISPERSION_NAMES = ['none', 'deepWater'];
+
+export type Vec3 = [number, number, number];
+
+export interface CameraPose {
+  position: Vec3;
+  target: Vec3;
+  zoom: number;
+}
+
+export interface SceneState extends SerializedState {
+  camera: CameraPose | null;
+}
+
+export interface SceneFieldError {
+  path: string;
+  message: string;
+}
+
+export type SceneParseResult =
+  | { ok: true; scene: SceneState }
+  | { ok: false; errors: SceneFieldError[] };
+
+// Keep files short and diff-friendly
+const roundNumbers = (_key: string, value: unknown) =>
+  typeof value === 'number' ? Math.round(value * 1e4) / 1e4 : value;
+
+/**
+ * Serialize a scene to pretty-printed JSON
+ */
+export function exportScene(scene: SceneState): string {
+  const file = {
+    format: SCENE_FILE_FORMAT,
+    version: SCENE_FILE_VERSION,
+    appMode: APP_MODE_NAMES[scene.appMode],
+    paramMode: PARAM_MODE_NAMES[scene.paramMode],
+    solver: SOLVER_NAMES[scene.solver],
+    globalSpeed: scene.globalSpeed,
+    falloff: FALLOFF_NAMES[scene.falloff],
+    absorption: scene.absorption,
+    sources: scene.sources.map(s => ({
+      id: s.id,
+      x: s.x,
+      y: s.y,
+      amplitude: s.amplitude,
+      frequency: s.frequency,
+      phase: s.phase,
+      visible: s.visible,
+      ...(s.groupId ? { groupId: s.groupId } : {}),
+      ...(s.motion && s.motion.path !== MotionPath.Static ? {
+        motion: {
+          path: MOTION_PATH_NAMES[s.motion.path],
+          speed: s.motion.speed,
+          direction: s.motion.direction,
+          radius: s.motion.radius,
+        },
+      } : {}),
+      ...(s.emission ? {
+        emission: {
+          waveform: WAVEFORM_NAMES[s.emission.waveform],
+          start: s.emission.start,
+          // An endless sine has no stop time, JSON has no Infinity
+          ...(Number.isFinite(s.emission.stop) ? { stop: s.emission.stop } : {}),
+          width: s.emission.width,
+        },
+      } : {}),
+      ...(s.shape && s.shape.kind !== WaveShape.Sine ? {
+        shape: {
+          kind: SHAPE_NAMES[s.shape.kind],
+          terms: s.shape.terms,
+          ...(s.shape.kind === WaveShape.Custom ? { harmonics: s.shape.harmonics } : {}),
+        },
+      } : {}),
+      ...(s.dispersion ? { dispersion: DISPERSION_NAMES[s.dispersion] } : {}),
+    })),
+    groups: scene.groups.map(g => ({
+      id: g.id,
+      layout: ARRAY_LAYOUT_NAMES[g.layout],
+      count: g.count,
+      rows: g.rows,
+      spacing: g.spacing,
+      phaseStep: g.phaseStep,
+      x: g.x,
+      y: g.y,
+      rotation: g.rotation,
+      amplitude: g.amplitude,
+      frequency: g.frequency,
+    })),
+    probes: scene.probes.map(p => ({ id: p.id, x: p.x, y: p.y })),
+    section: scene.section,
+    walls: scene.walls.map(w => ({
+      id: w.id,
+      x1: w.x1,
+      y1: w.y1,
+      x2: w.x2,
+      y2: w.y2,
+      reflection: w.reflection,
+      phaseFlip: w.phaseFlip,
+    })),
+    barriers: scene.barriers.map(b => ({
+      id: b.id,
+      x1: b.x1,
+      y1: b.y1,
+      x2: b.x2,
+      y2: b.y2,
+      openings: b.openings.map(o => ({ offset: o.offset, width: o.width })),
+    })),
+    regions: scene.regions.map(r => ({
+      id: r.id,
+      points: r.points.map(p => ({ x: p.x, y: p.y })),
+      speed: r.speed,
+    })),
+    camera: scene.camera,
+  };
+  return JSON.stringify(file, roundNumbers, 2) + '\n';
+}
+
+// --- Validation ---
+
+type Obj = Record<string, unknown>;
+
+// Collects field errors instead of stopping at the first one
+const createValidator = () => {
+  const errors: SceneFieldError[] = [];
+
+  const fail = (path: string, message: string) => {
+    errors.push({ path, message });
+  };
+
+  const object = (value: unknown, path: string, allowedKeys: string[]): Obj | null => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      fail(path, 'muss ein Objekt sein');
+      return null;
+    }
+    for (const key of Object.keys(value)) {
+      if (!allowedKeys.includes(key)) fail(join(path, key), 'unbekanntes Feld');
+    }
+    return value as Obj;
+  };
+
+  const array = (obj: Obj, key: string, path: string, fallback?: unknown[]): unknown[] | null => {
+    const value = obj[key];
+    if (value === undefined && fallback !== undefined) return fallback;
+    if (!Array.isArray(value)) {
+      fail(join(path, key), value === undefined ? 'fehlt' : 'muss eine Liste sein');
+      return null;
+    }
+    return value;
+  };
+
+  const number = (obj: Obj, key: string, path: string, opts: { fallback?: number, min?: number, exclusiveMin?: boolean } = {}): number => {
+    const value = obj[key];
+    if (value === undefined && opts.fallback !== undefined) return opts.fallback;
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      fail(join(path, key), value === undefined ? 'fehlt' : 'muss eine Zahl sein');
+      return 0;
+    }
+    if (opts.min !== undefined && (opts.exclusiveMin ? value <= opts.min : value < opts.min)) {
+      fail(join(path, key), `muss ${opts.exclusiveMin ? 'größer als' : 'mindestens'} ${opts.min} sein`);
+    }
+    return value;
+  };
+
+  const boolean = (obj: Obj, key: string, path: string, fallback: boolean): boolean => {
+    const value = obj[key];
+    if (value === undefined) return fallback;
+    if (typeof value !== 'boolean') {
+      fail(join(path, key), 'muss true oder false sein');
+      return fallback;
+    }
+    return value;
+  };
+
+  const string = (obj: Obj, key: string, path: string, fallback: () => string): string => {
+    const value = obj[key];
+    if (value === undefined) return fallback();
+    if (typeof value !== 'string' || value === '') {
+      fail(join(path, key), 'muss ein nicht-leerer Text sein');
+      return fallback();
+    }
+    return value;
+  };
+
+  const choice = (obj: Obj, key: string, path: string, names: string[]): number => {
+    const value = obj[key];
+    const index = typeof value === 'string' ? names.indexOf(value) : -1;
+    if (index < 0) {
+      fail(join(path, key), `muss einer von ${names.map(n => `"${n}"`).join(', ')} sein`);
+      return 0;
+    }
+    return index;
+  };
+
+  const vec3 = (obj: Obj, key: string, path: string): Vec3 => {
+    const value = obj[key];
+    if (!Array.isArray(value) || value.length !== 3 || !value.every(v => typeof v === 'number' && Number.isFinite(v))) {
+      fail(join(path, key), 'muss eine Liste aus drei Zahlen sein');
+      return [0, 0, 0];
+    }
+    return value as Vec3;
+  };
+
+  return { errors, fail, object, array, number, boolean, string, choice, vec3 };
+};
+
+const join = (path: string, key: string | number) =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+const randomId = () => Math.random().toString(36).substr(2, 9);
+
+/**
+ * Parse and validate a scene file. All problems are reported at once,
+ * each with the path of the offending field.
+ */
+export function parseScene(text: string): SceneParseResult {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (e) {
+    return { ok: false, errors: [{ path: '', message: `kein gültiges JSON (${e instanceof Error ? e.message : e})` }] };
+  }
+
+  const v = createValidator();
+  const root = v.object(json, '', [
+    'format', 'version', 'appMode', 'paramMode', 'solver', 'globalSpeed', 'falloff', 'absorption', 'sources', 'groups', 'probes', 'section', 'walls', 'barriers', 'regions', 'camera',
+  ]);
+  if (!root) return { ok: false, errors: v.errors };
+
+  if (root.format !== SCENE_FILE_FORMAT) v.fail('format', `muss "${SCENE_FILE_FORMAT}" sein`);
+  if (root.version !== SCENE_FILE_VERSION) v.fail('version', `nicht unterstützt, erwartet ${SCENE_FILE_VERSION}`);
+
+  const appMode = v.choice(root, 'appMode', '', APP_MODE_NAMES);
+  const paramMode = v.choice(root, 'paramMode', '', PARAM_MODE_NAMES);
+  const solverChoice = root.solver === undefined ? null : v.choice(root, 'solver', '', SOLVER_NAMES);
+  const globalSpeed = v.number(root, 'globalSpeed', '', { min: 0, exclusiveMin: true });
+  const falloff = root.falloff === undefined ? 0 : v.choice(root, 'falloff', '', FALLOFF_NAMES);
+  const absorption = v.number(root, 'absorption', '', { fallback: 0, min: 0 });
+
+  const sources: SceneState['sources'] = [];
+  (v.array(root, 'sources', '') ?? []).forEach((raw, i) => {
+    const path = join('sources', i);
+    const s = v.object(raw, path, ['id', 'x', 'y', 'amplitude', 'frequency', 'phase', 'visible', 'groupId', 'motion', 'emission', 'shape', 'dispersion']);
+    if (!s) return;
+    const groupId = s.groupId === undefined ? undefined : v.string(s, 'groupId', path, () => '');
+    let motion: SceneState['sources'][number]['motion'];
+    if (s.motion !== undefined) {
+      const motionPath = join(path, 'motion');
+      const m = v.object(s.motion, motionPath, ['path', 'speed', 'direction', 'radius']);
+      if (m) {
+        motion = {
+          path: v.choice(m, 'path', motionPath, MOTION_PATH_NAMES),
+          speed: v.number(m, 'speed', motionPath, { min: 0 }),
+          direction: v.number(m, 'direction', motionPath, { fallback: 0 }),
+          radius: v.number(m, 'radius', motionPath, { fallback: 0, min: 0 }),
+        };
+        if (motion.path === MotionPath.Circular && !(motion.radius > 0)) v.fail(join(motionPath, 'radius'), 'muss bei einer Kreisbahn größer als 0 sein');
+        if (groupId) v.fail(motionPath, 'Erreger einer Gruppe können sich nicht bewegen');
+      }
+    }
+    let emission: SceneState['sources'][number]['emission'];
+    if (s.emission !== undefined) {
+      const emissionPath = join(path, 'emission');
+      const e = v.object(s.emission, emissionPath, ['waveform', 'start', 'stop', 'width']);
+      if (e) {
+        emission = {
+          waveform: v.choice(e, 'waveform', emissionPath, WAVEFORM_NAMES),
+          start: v.number(e, 'start', emissionPath, { fallback: 0 }),
+          stop: v.number(e, 'stop', emissionPath, { fallback: Infinity }),
+          width: v.number(e, 'width', emissionPath, { fallback: 1, min: 0, exclusiveMin: true }),
+        };
+        if (emission.stop < emission.start) v.fail(join(emissionPath, 'stop'), 'darf nicht vor dem Start liegen');
+        if (groupId) v.fail(emissionPath, 'Erreger einer Gruppe werden von ihrer Gruppe angesteuert');
+      }
+    }
+    let shape: SceneState['sources'][number]['shape'];
+    if (s.shape !== undefined) {
+      const shapePath = join(path, 'shape');
+      const sh = v.object(s.shape, shapePath, ['kind', 'terms', 'harmonics']);
+      if (sh) {
+        const kind = v.choice(sh, 'kind', shapePath, SHAPE_NAMES);
+        const terms = v.number(sh, 'terms', shapePath, { min: 1 });
+        if (!Number.isInteger(terms) || terms > MAX_HARMONICS) v.fail(join(shapePath, 'terms'), `muss eine ganze Zahl von 1 bis ${MAX_HARMONICS} sein`);
+        const harmonics: number[] = [];
+        if (kind === WaveShape.Custom) {
+          const list = v.array(sh, 'harmonics', shapePath) ?? [];
+          list.forEach((value, k) => {
+            if (typeof value !== 'number' || !Number.isFinite(value)) v.fail(join(join(shapePath, 'harmonics'), k), 'muss eine Zahl sein');
+            else harmonics.push(value);
+          });
+          if (list.length !== terms) v.fail(join(shapePath, 'harmonics'), `muss ${terms} Werte enthalten`);
+        }
+        shape = { kind, terms, harmonics };
+        if (groupId) v.fail(shapePath, 'Erreger einer Gruppe werden von ihrer Gruppe angesteuert');
+      }
+    }
+    const dispersion = s.dispersion === undefined ? 0 : v.choice(s, 'dispersion', path, DISPERSION_NAMES);
+    sources.push({
+      id: v.string(s, 'id', path, randomId),
+      x: v.number(s, 'x', path),
+      y: v.number(s, 'y', path),
+      amplitude: v.number(s, 'amplitude', path, { min: 0 }),
+      frequency: v.number(s, 'frequency', path, { min: 0, exclusiveMin: true }),
+      phase: v.number(s, 'phase', path, { fallback: 0 }),
+      visible: v.boolean(s, 'visible', path, true),
+      ...(groupId ? { groupId } : {}),
+      ...(motion && motion.path !== MotionPath.Static ? { motion } : {}),
+      ...(emission ? { emission } : {}),
+      ...(shape && shape.kind !== WaveShape.Sine ? { shape } : {}),
+      ...(dispersion ? { dispersion } : {}),
+    });
+  });
+  if (sources.length > MAX_SOURCES) v.fail('sources', `höchstens ${MAX_SOURCES} Erreger erlaubt`);
+
+  const groups: SceneState['groups'] = [];
+  (v.array(root, 'groups', '', []) ?? []).forEach((raw, i) => {
+    const path = join('groups', i);
+    const g = v.object(raw, path, [
+      'id', 'layout', 'count', 'rows', 'spacing', 'phaseStep', 'x', 'y', 'rotation', 'amplitude', 'frequency',
+    ]);
+    if (!g) return;
+    groups.push({
+      id: v.string(g, 'id', path, randomId),
+      layout: v.choice(g, 'layout', path, ARRAY_LAYOUT_NAMES),
+      count: v.number(g, 'count', path, { min: 1 }),
+      rows: v.number(g, 'rows', path, { fallback: 1, min: 1 }),
+      spacing: v.number(g, 'spacing', path, { min: 0 }),
+      phaseStep: v.number(g, 'phaseStep', path, { fallback: 0 }),
+      x: v.number(g, 'x', path, { fallback: 0 }),
+      y: v.number(g, 'y', path, { fallback: 0 }),
+      rotation: v.number(g, 'rotation', path, { fallback: 0 }),
+      amplitude: v.number(g, 'amplitude', path, { min: 0 }),
+      frequency: v.number(g, 'frequency', path, { min: 0, exclusiveMin: true }),
+    });
+  });
+  sources.forEach((s, i) => {
+    if (s.groupId && !groups.some(g => g.id === s.groupId)) v.fail(join(join('sources', i), 'groupId'), `Gruppe "${s.groupId}" existiert nicht`);
+  });
+
+  const probes: SceneState['probes'] = [];
+  (v.array(root, 'probes', '', []) ?? []).forEach((raw, i) => {
+    const path = join('probes', i);
+    const p = v.object(raw, path, ['id', 'x', 'y']);
+    if (!p) return;
+    probes.push({
+      id: v.string(p, 'id', path, randomId),
+      x: v.number(p, 'x', path),
+      y: v.number(p, 'y', path),
+    });
+  });
+
+  let section: SceneState['section'] = null;
+  if (root.section !== undefined && root.section !== null) {
+    const s = v.object(root.section, 'section', ['x1', 'y1', 'x2', 'y2']);
+    if (s) {
+      section = {
+        x1: v.number(s, 'x1', 'section'),
+        y1: v.number(s, 'y1', 'section'),
+        x2: v.number(s, 'x2', 'section'),
+        y2: v.number(s, 'y2', 'section'),
+      };
+    }
+  }
+
+  const walls: SceneState['walls'] = [];
+  (v.array(root, 'walls', '', []) ?? []).forEach((raw, i) => {
+    const path = join('walls', i);
+    const w = v.object(raw, path, ['id', 'x1', 'y1', 'x2', 'y2', 'reflection', 'phaseFlip']);
+    if (!w) return;
+    const reflection = v.number(w, 'reflection', path, { fallback: 1, min: 0 });
+    if (reflection > 1) v.fail(join(path, 'reflection'), 'darf höchstens 1 sein');
+    walls.push({
+      id: v.string(w, 'id', path, randomId),
+      x1: v.number(w, 'x1', path),
+      y1: v.number(w, 'y1', path),
+      x2: v.number(w, 'x2', path),
+      y2: v.number(w, 'y2', path),
+      reflection,
+      phaseFlip: v.boolean(w, 'phaseFlip', path, false),
+    });
+  });
+  if (walls.length > MAX_WALLS) v.fail('walls', `höchstens ${MAX_WALLS} Wände erlaubt`);
+
+  const barriers: SceneState['barriers'] = [];
+  (v.array(root, 'barriers', '', []) ?? []).forEach((raw, i) => {
+    const path = join('barriers', i);
+    const b = v.object(raw, path, ['id', 'x1', 'y1', 'x2', 'y2', 'openings']);
+    if (!b) return;
+    const openings: SceneState['barriers'][number]['openings'] = [];
+    (v.array(b, 'openings', path) ?? []).forEach((rawOpening, j) => {
+      const openingPath = join(join(path, 'openings'), j);
+      const o = v.object(rawOpening, openingPath, ['offset', 'width']);
+      if (!o) return;
+      openings.push({
+        offset: v.number(o, 'offset', openingPath, { min: 0 }),
+        width: v.number(o, 'width', openingPath, { min: 0, exclusiveMin: true }),
+      });
+    });
+    barriers.push({
+      id: v.string(b, 'id', path, randomId),
+      x1: v.number(b, 'x1', path),
+      y1: v.number(b, 'y1', path),
+      x2: v.number(b, 'x2', path),
+      y2: v.number(b, 'y2', path),
+      openings,
+    });
+  });
+  if (barriers.length > MAX_BARRIERS) v.fail('barriers', `höchstens ${MAX_BARRIERS} Blenden erlaubt`);
+
+  const regions: SceneState['regions'] = [];
+  (v.array(root, 'regions', '', []) ?? []).forEach((raw, i) => {
+    const path = join('regions', i);
+    const r = v.object(raw, path, ['id', 'points', 'speed']);
+    if (!r) return;
+    const points: SceneState['regions'][number]['points'] = [];
+    (v.array(r, 'points', path) ?? []).forEach((rawPoint, j) => {
+      const pointPath = join(join(path, 'points'), j);
+      const p = v.object(rawPoint, pointPath, ['x', 'y']);
+      if (!p) return;
+      points.push({ x: v.number(p, 'x', pointPath), y: v.number(p, 'y', pointPath) });
+    });
+    if (points.length < 3 || points.length > MAX_REGION_VERTICES) {
+      v.fail(join(path, 'points'), `muss 3 bis ${MAX_REGION_VERTICES} Punkte enthalten`);
+    } else if (!isConvexPolygon(points)) {
+      v.fail(join(path, 'points'), 'muss ein konvexes Polygon sein');
+    }
+    regions.push({
+      id: v.string(r, 'id', path, randomId),
+      points,
+      speed: v.number(r, 'speed', path, { min: 0, exclusiveMin: true }),
+    });
+  });
+  if (regions.length > MAX_SPEED_REGIONS) v.fail('regions', `höchstens ${MAX_SPEED_REGIONS} Zonen erlaubt`);
+  // Only the numerical solver refracts the rays at the zones, see travelTime()
+  const solver = solverChoice ?? (regions.length > 0 ? 1 : 0);
+
+  let camera: CameraPose | null = null;
+  if (root.camera !== undefined && root.camera !== null) {
+    const c = v.object(root.camera, 'camera', ['position', 'target', 'zoom']);
+    if (c) {
+      camera = {
+        position: v.vec3(c, 'position', 'camera'),
+        target: v.vec3(c, 'target', 'camera'),
+        zoom: v.number(c, 'zoom', 'camera', { fallback: 1, min: 0, exclusiveMin: true }),
+      };
+    }
+  }
+
+  if (v.errors.length > 0) return { ok: false, errors: v.errors };
+  return { ok: true, scene: { appMode, paramMode, solver, globalSpeed, falloff, absorption, sources, groups, probes, section, walls, barriers, regions, camera } };
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { ArrayLayout, SourceGroup, generateArraySources, groupSize, regenerateGroup } from './sourceArrays';
+import { Falloff, Medium, WaveSource, sampleField } from './waveField';
+
+const group = (overrides: Partial<SourceGroup> = {}): SourceGroup => ({
+  id: 'g', layout: ArrayLayout.Linear, count: 4, rows: 1, spacing: 2, phaseStep: 0,
+  x: 0, y: 0, rotation: 0, amplitude: 1, frequency: 2, ...overrides,
+});
+
+const source = (id: string, overrides: Partial<WaveSource> = {}): WaveSource => ({
+  id, x: 0, y: 0, amplitude: 1, frequency: 2, phase: 0, visible: true, ...overrides,
+});
+
+const positions = (sources: WaveSource[]) => sources.map(s => [s.x, s.y]);
+
+const expectPositions = (sources: WaveSource[], expected: number[][]) => {
+  expect(sources).toHaveLength(expected.length);
+  sources.forEach((s, i) => {
+    expect(s.x).toBeCloseTo(expected[i][0], 10);
+    expect(s.y).toBeCloseTo(expected[i][1], 10);
+  });
+};
+
+describe('generateArraySources', () => {
+  it('spaces a linear array evenly around its center', () => {
+    const sources = generateArraySources(group({ x: 1, y: -2 }));
+    expectPositions(sources, [[-2, -2], [0, -2], [2, -2], [4, -2]]);
+    expect(sources.map(s => s.id)).toEqual(['g-0', 'g-1', 'g-2', 'g-3']);
+    expect(sources.every(s => s.groupId === 'g' && s.amplitude === 1 && s.frequency === 2 && s.visible)).toBe(true);
+  });
+
+  it('rotates the array counter-clockwise about its center', () => {
+    const sources = generateArraySources(group({ count: 3, x: 1, y: 1, rotation: Math.PI / 2 }));
+    expectPositions(sources, [[1, -1], [1, 1], [1, 3]]);
+  });
+
+  it('puts a circular array on a circle with the spacing as radius', () => {
+    const sources = generateArraySources(group({ layout: ArrayLayout.Circular, count: 4, spacing: 3, x: 1 }));
+    expectPositions(sources, [[4, 0], [1, 3], [-2, 0], [1, -3]]);
+  });
+
+  it('steps the phase along the columns of a grid and keeps rows in phase', () => {
+    const g = group({ layout: ArrayLayout.Grid, count: 3, rows: 2, spacing: 1, phaseStep: 0.5 });
+    const sources = generateArraySources(g);
+    expect(sources).toHaveLength(groupSize(g));
+    expectPositions(sources, [[-1, -0.5], [0, -0.5], [1, -0.5], [-1, 0.5], [0, 0.5], [1, 0.5]]);
+    expect(sources.map(s => s.phase)).toEqual([0, 0.5, 1, 0, 0.5, 1]);
+  });
+
+  it('wraps the phases into [0, 2 PI)', () => {
+    const sources = generateArraySources(group({ count: 3, phaseStep: -1 }));
+    expect(sources[0].phase).toBe(0);
+    expect(sources[1].phase).toBeCloseTo(2 * Math.PI - 1, 12);
+    expect(sources[2].phase).toBeCloseTo(2 * Math.PI - 2, 12);
+    expect(generateArraySources(group({ count: 3, phaseStep: 4 }))[2].phase).toBeCloseTo(8 - 2 * Math.PI, 12);
+  });
+
+  it('steers the beam of a linear array with the phase step', () => {
+    // k = omega / c = 2 rad/m, the spacing stays below half a wavelength
+    const medium: Medium = { speed: 5, falloff: Falloff.None, absorption: 0, walls: [], barriers: [], regions: [] };
+    const k = 10 / medium.speed;
+    const beam = Math.PI / 3;
+    const steered = generateArraySources(group({ count: 8, spacing: 1, frequency: 10, phaseStep: -k * Math.cos(beam) }));
+    const envelope = (angle: number) => sampleField(steered, medium, 200 * Math.cos(angle), 200 * Math.sin(angle), 0).amplitude;
+    expect(envelope(beam)).toBeGreaterThan(7.9);
+    expect(envelope(Math.PI / 2)).toBeLessThan(2);
+  });
+});
+
+describe('regenerateGroup', () => {
+  it('replaces the members in place and keeps their visibility', () => {
+    const before = [source('a'), ...generateArraySources(group({ count: 2 })), source('b')];
+    before[2].visible = false;
+    const after = regenerateGroup(before, group({ count: 3, x: 5 }));
+    expect(after.map(s => s.id)).toEqual(['a', 'g-0', 'g-1', 'g-2', 'b']);
+    expect(after.map(s => s.visible)).toEqual([true, true, false, true, true]);
+    expectPositions(after.slice(1, 4), [[3, 0], [5, 0], [7, 0]]);
+    expect(after[0]).toBe(before[0]);
+    expect(after[4]).toBe(before[3]);
+  });
+
+  it('leaves other groups alone and appends a new group', () => {
+    const other = generateArraySources(group({ id: 'h', count: 2 }));
+    const after = regenerateGroup([source('a'), ...other], group({ count: 2 }));
+    expect(after.map(s => s.id)).toEqual(['a', 'h-0', 'h-1', 'g-0', 'g-1']);
+    expect(positions(after.slice(1, 3))).toEqual(positions(other));
+  });
+});
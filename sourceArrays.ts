@@ -0,0 +1,90 @@
+import { WaveSource } from './waveField';
+
+// Array generators for groups of sources.
+// A group stores how its sources were generated; moving, rotating or
+// changing the phase gradient of the group regenerates its sources.
+
+export enum ArrayLayout {
+  Linear = 0,
+  Circular = 1,
+  Grid = 2
+}
+
+export interface SourceGroup {
+  id: string;
+  layout: ArrayLayout;
+  count: number;     // elements (linear, circular) or columns (grid)
+  rows: number;      // grid only
+  spacing: number;   // element distance (linear, grid) or radius (circular)
+  phaseStep: number; // delta_phi between neighbouring elements
+  x: number;         // center
+  y: number;
+  rotation: number;  // rad, counter-clockwise
+  amplitude: number;
+  frequency: number;
+}
+
+export const groupSize = (group: SourceGroup) =>
+  group.layout === ArrayLayout.Grid ? group.count * group.rows : group.count;
+
+const wrapPhase = (phase: number) => ((phase % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
+
+/**
+ * Generate the sources of a group. Element i gets the phase i * phaseStep;
+ * in a grid the progression runs along the columns and rows are in phase.
+ * Source ids are derived from the group id, so regenerating keeps them.
+ */
+export function generateArraySources(group: SourceGroup): WaveSource[] {
+  const local: Array<{ x: number, y: number, step: number }> = [];
+
+  if (group.layout === ArrayLayout.Linear) {
+    for (let i = 0; i < group.count; i++) {
+      local.push({ x: (i - (group.count - 1) / 2) * group.spacing, y: 0, step: i });
+    }
+  } else if (group.layout === ArrayLayout.Circular) {
+    for (let i = 0; i < group.count; i++) {
+      const angle = (i / group.count) * Math.PI * 2;
+      local.push({ x: group.spacing * Math.cos(angle), y: group.spacing * Math.sin(angle), step: i });
+    }
+  } else {
+    for (let r = 0; r < group.rows; r++) {
+      for (let c = 0; c < group.count; c++) {
+        local.push({
+          x: (c - (group.count - 1) / 2) * group.spacing,
+          y: (r - (group.rows - 1) / 2) * group.spacing,
+          step: c,
+        });
+      }
+    }
+  }
+
+  const cos = Math.cos(group.rotation);
+  const sin = Math.sin(group.rotation);
+
+  return local.map((p, i) => ({
+    id: `${group.id}-${i}`,
+    groupId: group.id,
+    x: group.x + p.x * cos - p.y * sin,
+    y: group.y + p.x * sin + p.y * cos,
+    amplitude: group.amplitude,
+    frequency: group.frequency,
+    phase: wrapPhase(p.step * group.phaseStep),
+    visible: true,
+  }));
+}
+
+/**
+ * Replace the sources of a group in a source list with a fresh generation.
+ * The group keeps its place in the list and its members keep their
+ * visibility.
+ */
+export function regenerateGroup(sources: WaveSource[], group: SourceGroup): WaveSource[] {
+  const generated = generateArraySources(group);
+  const visibility = new Map(sources.filter(s => s.groupId === group.id).map(s => [s.id, s.visible]));
+  generated.forEach(s => { s.visible = visibility.get(s.id) ?? true; });
+
+  const first = sources.findIndex(s => s.groupId === group.id);
+  const rest = sources.filter(s => s.groupId !== group.id);
+  if (first < 0) return [...rest, ...generated];
+  return [...rest.slice(0, first), ...generated, ...rest.slice(first)];
+}
@@ -0,0 +1,174 @@
+import { Colormap, ValueRange, colormapStops, legendTicks } from './colormaps';
+import { ParamMode } from './waveField';
+
+// Still images for print.
+//
+// The scene itself is rendered by the caller; this module burns a caption
+// panel into it (title, parameter values of the sources and the color
+// legend of the data modes) and writes the legend as SVG. The legend is
+// built from the color map and range of the shader, see colormaps.ts.
+
+export interface LegendStop {
+  offset: number; // 0..1 along the bar
+  color: string;
+}
+
+export interface LegendTick {
+  offset: number;
+  label: string;
+}
+
+export interface Legend {
+  title: string;
+  stops: LegendStop[];
+  ticks: LegendTick[];
+}
+
+export interface StillCaption {
+  title: string;
+  lines: string[];       // one per source, parameter values
+  legend: Legend | null; // data modes only
+}
+
+export const PARAM_MODE_LABELS: Record<ParamMode, string> = {
+  [ParamMode.Elongation]: 'Auslenkung s',
+  [ParamMode.Velocity]: 'Geschwindigkeit v/ω',
+  [ParamMode.Acceleration]: 'Beschleunigung a/ω²',
+  [ParamMode.Amplitude]: 'Amplitude s_max',
+  [ParamMode.Phase]: 'Phasendifferenz Δφ',
+  [ParamMode.Intensity]: 'Intensität I ∝ s_max²',
+  [ParamMode.Energy]: 'Energiedichte ⟨w⟩/ρ',
+  [ParamMode.Rms]: 'Effektivwert s_eff',
+  [ParamMode.WaveVector]: 'Lokale Wellenlänge λ = 2π/|k|',
+};
+
+// Velocity and acceleration are shown as v/omega and a/omega^2 (see
+// FieldSample), so they are lengths like the elongation
+const PARAM_MODE_UNITS: Record<ParamMode, string> = {
+  [ParamMode.Elongation]: 'm',
+  [ParamMode.Velocity]: 'm',
+  [ParamMode.Acceleration]: 'm',
+  [ParamMode.Amplitude]: 'm',
+  [ParamMode.Phase]: 'rad',
+  [ParamMode.Intensity]: 'm²',
+  [ParamMode.Energy]: 'm²/s²',
+  [ParamMode.Rms]: 'm',
+  [ParamMode.WaveVector]: 'm',
+};
+
+/**
+ * Legend of a data mode: color bar and value ticks of the map and range
+ * the shader uses
+ */
+export function paramLegend(mode: ParamMode, colormap: Colormap, range: ValueRange): Legend {
+  const unit = PARAM_MODE_UNITS[mode];
+  return {
+    title: `${PARAM_MODE_LABELS[mode]} (${unit})`,
+    stops: colormapStops(colormap, mode),
+    ticks: legendTicks(mode, range, unit === 'rad' ? '' : unit),
+  };
+}
+
+// Text alignment of a tick label, the outer ones stay inside the bar
+export const tickAnchor = (offset: number) => offset < 0.05 ? 'start' : offset > 0.95 ? 'end' : 'middle';
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * The legend as a standalone SVG document, width in px
+ */
+export function legendSvg(legend: Legend, width = 360): string {
+  const margin = 16;
+  const bar = width - 2 * margin;
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="84" viewBox="0 0 ${width} 84" font-family="sans-serif">`,
+    '  <defs>',
+    '    <linearGradient id="legend" x1="0" x2="1" y1="0" y2="0">',
+    ...legend.stops.map(s => `      <stop offset="${s.offset.toFixed(4)}" stop-color="${s.color}"/>`),
+    '    </linearGradient>',
+    '  </defs>',
+    `  <text x="${margin}" y="22" font-size="14" font-weight="bold">${escapeXml(legend.title)}</text>`,
+    `  <rect x="${margin}" y="32" width="${bar}" height="16" fill="url(#legend)" stroke="#333" stroke-width="0.5"/>`,
+    ...legend.ticks.map(t => {
+      const x = margin + t.offset * bar;
+      return `  <line x1="${x}" x2="${x}" y1="48" y2="54" stroke="#333"/>\n`
+        + `  <text x="${x}" y="70" font-size="12" text-anchor="${tickAnchor(t.offset)}">${escapeXml(t.label)}</text>`;
+    }),
+    '</svg>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Copy of the rendered image with the caption panel in the lower left
+ * corner. Sizes scale with the image, so the panel looks the same at every
+ * resolution.
+ */
+export function composeStill(image: HTMLCanvasElement, caption: StillCaption): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Kein 2D-Kontext für den Export verfügbar.');
+  ctx.drawImage(image, 0, 0);
+
+  const u = Math.max(1, image.width / 1280);
+  const pad = 12 * u;
+  const titleSize = 16 * u;
+  const lineSize = 12 * u;
+  const lineHeight = lineSize * 1.4;
+  const barWidth = 280 * u;
+  const legendHeight = caption.legend ? 58 * u : 0;
+
+  ctx.font = `bold ${titleSize}px sans-serif`;
+  let width = Math.max(barWidth, ctx.measureText(caption.title).width);
+  ctx.font = `${lineSize}px monospace`;
+  for (const line of caption.lines) width = Math.max(width, ctx.measureText(line).width);
+  width += 2 * pad;
+  const height = pad + titleSize * 1.3 + caption.lines.length * lineHeight + legendHeight + pad;
+  const left = 16 * u;
+  const top = image.height - 16 * u - height;
+
+  ctx.fillStyle = 'rgba(10, 10, 20, 0.75)';
+  ctx.beginPath();
+  ctx.roundRect(left, top, width, height, 8 * u);
+  ctx.fill();
+
+  let y = top + pad + titleSize;
+  ctx.fillStyle = '#ffffff';
+  ctx.textBaseline = 'alphabetic';
+  ctx.font = `bold ${titleSize}px sans-serif`;
+  ctx.fillText(caption.title, left + pad, y);
+  y += titleSize * 0.3;
+
+  ctx.font = `${lineSize}px monospace`;
+  ctx.fillStyle = '#cbd5e1';
+  for (const line of caption.lines) {
+    y += lineHeight;
+    ctx.fillText(line, left + pad, y);
+  }
+
+  const legend = caption.legend;
+  if (legend) {
+    const x0 = left + pad;
+    y += 12 * u;
+    ctx.font = `bold ${lineSize}px sans-serif`;
+    ctx.fillStyle = '#ffffff';
+    ctx.fillText(legend.title, x0, y + lineSize);
+    const barTop = y + lineSize * 1.6;
+    const gradient = ctx.createLinearGradient(x0, 0, x0 + barWidth, 0);
+    for (const stop of legend.stops) gradient.addColorStop(stop.offset, stop.color);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(x0, barTop, barWidth, 10 * u);
+
+    ctx.font = `${lineSize}px sans-serif`;
+    ctx.fillStyle = '#cbd5e1';
+    for (const tick of legend.ticks) {
+      ctx.textAlign = ({ start: 'left', end: 'right', middle: 'center' } as const)[tickAnchor(tick.offset)];
+      ctx.fillText(tick.label, x0 + tick.offset * barWidth, barTop + 10 * u + lineSize * 1.3);
+    }
+    ctx.textAlign = 'left';
+  }
+  return canvas;
+}
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import {
+  Falloff, Medium, MotionPath, WaveSource, Waveform, emissionDelays, sampleField, sourcePosition, sourceSignal, travelTime,
+} from './waveField';
+
+const medium = (overrides: Partial<Medium> = {}): Medium => ({
+  speed: 5, falloff: Falloff.None, absorption: 0, walls: [], barriers: [], regions: [], ...overrides,
+});
+
+const source = (overrides: Partial<WaveSource> = {}): WaveSource => ({
+  id: '1', x: 0, y: 0, amplitude: 1, frequency: 2, phase: 0, visible: true, ...overrides,
+});
+
+// Square region [x0, x1] x [y0, y1]
+const square = (x0: number, x1: number, y0: number, y1: number, speed: number) => ({
+  id: 'z', speed, points: [{ x: x0, y: y0 }, { x: x1, y: y0 }, { x: x1, y: y1 }, { x: x0, y: y1 }],
+});
+
+describe('sampleField', () => {
+  it('is a retarded sine for a single source', () => {
+    const s = source({ amplitude: 0.8, frequency: 2, phase: 0.3 });
+    const r = Math.hypot(6, 8);
+    const theta = 2 * (3.1 - r / 5) + 0.3;
+    const sample = sampleField([s], medium(), 6, 8, 3.1);
+    expect(sample.elongation).toBeCloseTo(0.8 * Math.sin(theta), 10);
+    expect(sample.velocity).toBeCloseTo(0.8 * Math.cos(theta), 10);
+    expect(sample.acceleration).toBeCloseTo(-0.8 * Math.sin(theta), 10);
+    expect(sample.amplitude).toBeCloseTo(0.8, 10);
+    expect(sample.phase).toBe(0);
+    expect(sample.meanSquare).toBeCloseTo(0.32, 10);
+  });
+
+  it('spreads and absorbs with the distance', () => {
+    const m = medium({ falloff: Falloff.Cylindrical, absorption: 0.05 });
+    const sample = sampleField([source()], m, 0, 16, 0);
+    expect(sample.amplitude).toBeCloseTo(Math.exp(-0.05 * 16) / 4, 10);
+  });
+
+  it('ignores hidden sources', () => {
+    const sample = sampleField([source({ visible: false })], medium(), 3, 4, 1);
+    expect(sample.elongation).toBe(0);
+    expect(sample.amplitude).toBe(0);
+  });
+});
+
+describe('travelTime', () => {
+  it('is r / c without regions', () => {
+    expect(travelTime(medium(), 0, 0, 30, 40)).toBeCloseTo(10, 10);
+  });
+
+  it('adds the extra time spent inside a region', () => {
+    // 10 m of the 40 m path lie in the region with c = 2
+    const m = medium({ regions: [square(10, 20, -5, 5, 2)] });
+    expect(travelTime(m, 0, 0, 40, 0)).toBeCloseTo(30 / 5 + 10 / 2, 10);
+  });
+
+  it('ignores regions off the path', () => {
+    const m = medium({ regions: [square(10, 20, 5, 15, 2)] });
+    expect(travelTime(m, 0, 0, 40, 0)).toBeCloseTo(8, 10);
+  });
+});
+
+describe('emissionDelays', () => {
+  it('is r / c for a resting source', () => {
+    expect(emissionDelays(source({ x: 1, y: 2 }), 5, 4, 6, 7)).toEqual([1]);
+  });
+
+  it('satisfies |p - position(t - s)| = c s for a linear path below c', () => {
+    const s = source({ motion: { path: MotionPath.Linear, speed: 2, direction: 0.4, radius: 0 } });
+    const delays = emissionDelays(s, 5, -8, 3, 4);
+    expect(delays).toHaveLength(1);
+    const e = sourcePosition(s, 4 - delays[0]);
+    expect(Math.hypot(-8 - e.x, 3 - e.y)).toBeCloseTo(5 * delays[0], 8);
+  });
+
+  it('has two delays inside and none outside the Mach cone', () => {
+    const s = source({ motion: { path: MotionPath.Linear, speed: 10, direction: 0, radius: 0 } });
+    // At t = 10 the source is at x = 100, the cone opens backwards
+    const inside = emissionDelays(s, 5, 60, 5, 10);
+    expect(inside).toHaveLength(2);
+    for (const delay of inside) {
+      const e = sourcePosition(s, 10 - delay);
+      expect(Math.hypot(60 - e.x, 5 - e.y)).toBeCloseTo(5 * delay, 8);
+    }
+    expect(emissionDelays(s, 5, 120, 5, 10)).toEqual([]);
+  });
+
+  it('converges on a circular path', () => {
+    const s = source({ motion: { path: MotionPath.Circular, speed: 1.5, direction: 0, radius: 3 } });
+    const [delay] = emissionDelays(s, 5, 12, -7, 2.5);
+    const e = sourcePosition(s, 2.5 - delay);
+    expect(Math.hypot(12 - e.x, -7 - e.y)).toBeCloseTo(5 * delay, 6);
+  });
+});
+
+describe('sourceSignal', () => {
+  it('is an endless sine without emission', () => {
+    const signal = sourceSignal(source({ frequency: 3, phase: 0.5 }), -2);
+    expect(signal.value).toBeCloseTo(Math.sin(3 * -2 + 0.5), 12);
+    expect(signal.rate).toBeCloseTo(Math.cos(3 * -2 + 0.5), 12);
+    expect(signal.envelope).toBe(1);
+  });
+
+  it('is silent before the start and after the stop of a sine', () => {
+    const s = source({ emission: { waveform: Waveform.Sine, start: 1, stop: 4, width: 0.5 } });
+    expect(sourceSignal(s, 0.5).envelope).toBe(0);
+    expect(sourceSignal(s, 2).envelope).toBe(1);
+    expect(sourceSignal(s, 4.5).envelope).toBe(0);
+  });
+
+  it('peaks a pulse PULSE_LEAD widths after its start, with matching derivatives', () => {
+    const s = source({ frequency: 2, emission: { waveform: Waveform.Pulse, start: 1, stop: Infinity, width: 0.5 } });
+    expect(sourceSignal(s, 1 + 3 * 0.5).value).toBeCloseTo(1, 12);
+    // rate = (ds/dt) / omega
+    const h = 1e-5;
+    const tau = 2.1;
+    const numeric = (sourceSignal(s, tau + h).value - sourceSignal(s, tau - h).value) / (2 * h);
+    expect(sourceSignal(s, tau).rate).toBeCloseTo(numeric / 2, 6);
+  });
+
+  it('flips the sign of a pulse reflected with a phase jump', () => {
+    const s = source({ emission: { waveform: Waveform.Pulse, start: 0, stop: Infinity, width: 0.5 } });
+    expect(sourceSignal(s, 1.4, Math.PI).value).toBeCloseTo(-sourceSignal(s, 1.4).value, 12);
+  });
+});
@@ -0,0 +1,972 @@
+// Headless wave-field engine.
+//
+// TypeScript reference implementation of the superposition computed by the
+// vertex shader in index.tsx. Everything here is pure (no DOM, no WebGL), so
+// it can drive probes and plots in the UI and be checked without a GPU.
+
+export interface WaveSource {
+  id: string;
+  x: number;
+  y: number;
+  amplitude: number; // s_max
+  frequency: number; // omega
+  phase: number;     // delta_phi
+  visible: boolean;  // toggle for active/inactive
+  groupId?: string;  // member of a generated array, see sourceArrays.ts
+  barrier?: number;  // Huygens secondary source: index in Medium.barriers, see barrierSources()
+  side?: number;     // Huygens secondary source: radiates only to this side of its barrier
+  motion?: SourceMotion; // moving source, (x, y) is its position at t = 0 or the circle center
+  emission?: SourceEmission; // switch-on time and waveform, without it a sine since t = -infinity
+  shape?: SourceShape;       // periodic signal other than a sine, see expandHarmonics()
+  dispersion?: Dispersion;   // relation between omega and k, none: k = omega / c
+  harmonic?: number;         // component n of a non-sine source, see expandHarmonics()
+}
+
+// Periodic shape of the signal, approximated by a truncated Fourier series
+export enum WaveShape {
+  Sine = 0,
+  Square = 1,
+  Triangle = 2,
+  Sawtooth = 3,
+  Custom = 4 // user-defined amplitudes of the harmonics
+}
+
+export interface SourceShape {
+  kind: WaveShape;
+  terms: number;       // harmonics n = 1..terms of the series
+  harmonics: number[]; // custom only: amplitude of harmonic n relative to s_max
+}
+
+// Dispersion relation of the waves of a source
+export enum Dispersion {
+  None = 0,     // k = omega / c, all frequencies travel with c
+  DeepWater = 1 // gravity waves on deep water, omega^2 = g * k
+}
+
+// Signal a source emits
+export enum Waveform {
+  Sine = 0,  // s_max * sin(omega * t + delta_phi) between start and stop
+  Pulse = 1, // single Gaussian pulse s_max * exp(-((t - t_c) / sigma)^2)
+  Packet = 2 // sine under a Gaussian envelope
+}
+
+export interface SourceEmission {
+  waveform: Waveform;
+  start: number; // t_start (s), nothing is emitted before
+  stop: number;  // t_stop (s), sine only, Infinity = endless
+  width: number; // sigma (s) of the Gaussian envelope, pulse and packet only
+}
+
+// Path of a moving source
+export enum MotionPath {
+  Static = 0,
+  Linear = 1,  // straight line, starts at (x, y) at t = 0
+  Circular = 2 // circle around (x, y), counter-clockwise
+}
+
+export interface SourceMotion {
+  path: MotionPath;
+  speed: number;     // v (m/s) along the path
+  direction: number; // linear: heading, circular: angle on the circle at t = 0 (rad)
+  radius: number;    // circular only (m)
+}
+
+// Data/Parameter Modes
+export enum ParamMode {
+  Elongation = 0,
+  Velocity = 1,
+  Acceleration = 2,
+  Amplitude = 3, // Envelope
+  Phase = 4,     // Mean Pairwise Phase Difference
+  Intensity = 5, // Envelope squared
+  Energy = 6,    // Time-averaged energy density
+  Rms = 7,       // Root mean square elongation
+  WaveVector = 8 // Local wave vector, colored by the local wavelength
+}
+
+// Modes without negative values, their color scales start at 0
+export const isNonNegativeMode = (mode: ParamMode) =>
+  mode !== ParamMode.Elongation && mode !== ParamMode.Velocity && mode !== ParamMode.Acceleration && mode !== ParamMode.Phase;
+
+// Geometric spreading of the amplitude with distance r
+export enum Falloff {
+  None = 0,        // plane-like, no spreading
+  Cylindrical = 1, // 1/sqrt(r), circular waves on a 2D surface
+  Spherical = 2    // 1/r, spherical waves
+}
+
+// Straight wall that reflects waves and blocks them from passing through
+export interface Wall extends Segment {
+  id: string;
+  reflection: number;  // reflection coefficient R in [0, 1]
+  phaseFlip: boolean;  // hard boundary: reflected wave is shifted by PI
+}
+
+// Opening in a barrier, positions are measured along the barrier from (x1, y1)
+export interface BarrierOpening {
+  offset: number; // center (m)
+  width: number;  // (m)
+}
+
+// Absorbing screen with slits. No wave passes it directly; behind each
+// opening a row of Huygens secondary sources re-emits the incoming field.
+export interface Barrier extends Segment {
+  id: string;
+  openings: BarrierOpening[];
+}
+
+// Convex region with its own propagation speed, e.g. a shallow shelf.
+// Regions are not meant to overlap.
+export interface SpeedRegion {
+  id: string;
+  points: Array<{ x: number, y: number }>; // convex polygon, either orientation
+  speed: number;                           // c inside the region (m/s)
+}
+
+// The basin the waves travel in: medium properties and boundaries,
+// shared by all sources
+export interface Medium {
+  speed: number;      // c (m/s) outside of speed regions
+  falloff: Falloff;
+  absorption: number; // alpha (1/m), amplitude ~ exp(-alpha * r)
+  walls: Wall[];
+  barriers: Barrier[];
+  regions: SpeedRegion[];
+}
+
+// Upper bounds for sources, walls, barriers and speed regions, the shader
+// uses a fixed-width source texture and fixed-size uniform arrays
+export const MAX_SOURCES = 256;
+export const MAX_WALLS = 16;
+export const MAX_BARRIERS = 4;
+export const MAX_SPEED_REGIONS = 4;
+export const MAX_REGION_VERTICES = 8;
+
+// Distance between neighbouring Huygens sources in an opening (m) and the
+// upper bound per opening, wider openings get a coarser spacing
+export const HUYGENS_SPACING = 0.25;
+export const MAX_HUYGENS_PER_OPENING = 24;
+
+// Highest harmonic of a non-sine shape, every non-zero term costs a shader slot
+export const MAX_HARMONICS = 9;
+
+// Gravitational acceleration for the deep-water dispersion (m/s^2)
+export const GRAVITY = 9.81;
+
+// Lower bound for the propagation speed, same as `safeSpeed` in the shader
+export const MIN_SPEED = 0.1;
+
+// Spreading starts at this distance (m), closer points get the full amplitude
+export const FALLOFF_REFERENCE_DISTANCE = 1.0;
+
+// Frequencies told apart in the time averages (meanSquare, energy). Sources
+// beyond these are added as if incoherent.
+export const MAX_FREQUENCY_GROUPS = 8;
+
+export interface FieldSample {
+  elongation: number;   // s
+  velocity: number;     // v / omega
+  acceleration: number; // a / omega^2
+  amplitude: number;    // envelope of the phasor sum
+  phase: number;        // mean pairwise phase difference in [-PI, PI]
+  meanSquare: number;   // time average of s^2, sources of one frequency add coherently
+  energy: number;       // time-averaged energy density / rho: mean of omega^2 s_max^2 / 2
+  waveVectorX: number;  // local wave vector k = -grad(phase of the phasor sum) (rad/m),
+  waveVectorY: number;  // points along the propagation, 0 where the field is flat
+}
+
+// Field at a point (x, y) and time t, analytic (sampleField) or from the
+// numerical solver (fdtdSolver.ts)
+export type FieldSampler = (x: number, y: number, t: number) => FieldSample;
+
+// A point the wave of a source is emitted from: the source itself or one of
+// its mirror images behind a wall
+export interface Emitter {
+  x: number;
+  y: number;
+  gain: number;       // amplitude factor (reflection coefficient)
+  phaseShift: number; // added to delta_phi
+  via?: { x: number, y: number }; // reflection point on the wall (mirror images)
+}
+
+// Orientation of c relative to the line a -> b (>0 left, <0 right)
+export const cross = (ax: number, ay: number, bx: number, by: number, cx: number, cy: number) =>
+  (bx - ax) * (cy - ay) - (by - ay) * (cx - ax);
+
+/**
+ * Whether the segment (ax, ay) -> (bx, by) properly crosses a wall segment
+ */
+export function crossesSegment(ax: number, ay: number, bx: number, by: number, w: Segment): boolean {
+  const d1 = cross(w.x1, w.y1, w.x2, w.y2, ax, ay);
+  const d2 = cross(w.x1, w.y1, w.x2, w.y2, bx, by);
+  const d3 = cross(ax, ay, bx, by, w.x1, w.y1);
+  const d4 = cross(ax, ay, bx, by, w.x2, w.y2);
+  return d1 * d2 < 0 && d3 * d4 < 0;
+}
+
+const pathBlocked = (ax: number, ay: number, bx: number, by: number, blockers: Segment[], skip: number) =>
+  blockers.some((w, k) => k !== skip && crossesSegment(ax, ay, bx, by, w));
+
+// Huygens sources only radiate into the half-plane behind their barrier
+const radiatesTo = (source: WaveSource, medium: Medium, x: number, y: number) => {
+  if (source.barrier === undefined) return true;
+  const b = medium.barriers[source.barrier];
+  return !!b && Math.sign(cross(b.x1, b.y1, b.x2, b.y2, x, y)) === source.side;
+};
+
+/**
+ * Mirror a point across the (infinite) line through a wall
+ */
+export function mirrorPoint(x: number, y: number, w: Segment): { x: number, y: number } {
+  const dx = w.x2 - w.x1;
+  const dy = w.y2 - w.y1;
+  const len2 = dx * dx + dy * dy;
+  if (len2 === 0) return { x, y };
+  const f = ((x - w.x1) * dx + (y - w.y1) * dy) / len2;
+  const px = w.x1 + f * dx;
+  const py = w.y1 + f * dy;
+  return { x: 2 * px - x, y: 2 * py - y };
+}
+
+/**
+ * Emitters of a source that reach the point (x, y): the direct wave unless
+ * a wall or barrier is in the way, plus one first-order mirror image per wall
+ * whose reflection point lies on the wall and whose legs are not blocked.
+ */
+export function sourceEmitters(source: WaveSource, x: number, y: number, medium: Medium): Emitter[] {
+  // Moving sources are handled with retarded positions in sampleField()
+  if (isMoving(source)) return [];
+  const walls = medium.walls.slice(0, MAX_WALLS);
+  // Walls first, so wall k is also blocker k
+  const blockers: Segment[] = [...walls, ...medium.barriers.slice(0, MAX_BARRIERS)];
+  const emitters: Emitter[] = [];
+  if (!radiatesTo(source, medium, x, y)) return emitters;
+
+  if (!pathBlocked(source.x, source.y, x, y, blockers, -1)) {
+    emitters.push({ x: source.x, y: source.y, gain: 1, phaseShift: 0 });
+  }
+
+  walls.forEach((w, k) => {
+    const image = mirrorPoint(source.x, source.y, w);
+    // The path from the image to the point must pass through the wall
+    if (!crossesSegment(image.x, image.y, x, y, w)) return;
+
+    // Reflection point on the wall
+    const dx = x - image.x;
+    const dy = y - image.y;
+    const wx = w.x2 - w.x1;
+    const wy = w.y2 - w.y1;
+    const f = ((w.x1 - image.x) * wy - (w.y1 - image.y) * wx) / (dx * wy - dy * wx);
+    const qx = image.x + f * dx;
+    const qy = image.y + f * dy;
+    if (!radiatesTo(source, medium, qx, qy)) return;
+    if (pathBlocked(source.x, source.y, qx, qy, blockers, k) || pathBlocked(qx, qy, x, y, blockers, k)) return;
+
+    emitters.push({ x: image.x, y: image.y, gain: w.reflection, phaseShift: w.phaseFlip ? Math.PI : 0, via: { x: qx, y: qy } });
+  });
+
+  return emitters;
+}
+
+// --- Speed regions ---
+
+const signedArea = (points: SpeedRegion['points']) =>
+  points.reduce((sum, p, k) => {
+    const q = points[(k + 1) % points.length];
+    return sum + (p.x * q.y - q.x * p.y);
+  }, 0) / 2;
+
+/**
+ * Whether a polygon is convex and not degenerate
+ */
+export function isConvexPolygon(points: SpeedRegion['points']): boolean {
+  if (points.length < 3 || Math.abs(signedArea(points)) < 1e-9) return false;
+  let sign = 0;
+  for (let k = 0; k < points.length; k++) {
+    const a = points[k];
+    const b = points[(k + 1) % points.length];
+    const c = points[(k + 2) % points.length];
+    const turn = Math.sign(cross(a.x, a.y, b.x, b.y, c.x, c.y));
+    if (turn === 0) continue;
+    if (sign !== 0 && turn !== sign) return false;
+    sign = turn;
+  }
+  return true;
+}
+
+/**
+ * Part of the segment a -> b inside a convex region as parameter range
+ * [t0, t1] of a + t * (b - a) (Cyrus-Beck), empty if t1 <= t0
+ */
+export function clipSegmentToRegion(ax: number, ay: number, bx: number, by: number, region: SpeedRegion): [number, number] {
+  const orientation = Math.sign(signedArea(region.points));
+  const dx = bx - ax;
+  const dy = by - ay;
+  let t0 = 0;
+  let t1 = 1;
+
+  for (let k = 0; k < region.points.length; k++) {
+    const p = region.points[k];
+    const q = region.points[(k + 1) % region.points.length];
+    // Inward normal of the edge p -> q
+    const nx = -(q.y - p.y) * orientation;
+    const ny = (q.x - p.x) * orientation;
+    const num = nx * (ax - p.x) + ny * (ay - p.y);
+    const den = nx * dx + ny * dy;
+    if (Math.abs(den) < 1e-12) {
+      if (num < 0) return [1, 0];
+      continue;
+    }
+    const t = -num / den;
+    if (den > 0) t0 = Math.max(t0, t);
+    else t1 = Math.min(t1, t);
+  }
+  return [t0, t1];
+}
+
+/**
+ * Propagation speed at a point, the speed of the first region containing it
+ */
+export function localSpeed(medium: Medium, x: number, y: number): number {
+  for (const region of medium.regions.slice(0, MAX_SPEED_REGIONS)) {
+    const [t0, t1] = clipSegmentToRegion(x, y, x, y, region);
+    if (t1 >= t0) return Math.max(MIN_SPEED, region.speed);
+  }
+  return Math.max(MIN_SPEED, medium.speed);
+}
+
+/**
+ * Travel time along the straight path a -> b: r / c outside of the regions
+ * plus the extra time spent in each region. Wavefronts bend at region
+ * boundaries because the phase is accumulated along the path, a
+ * straight-ray approximation (no Snell refraction of the path itself): the
+ * rays do not bend. The numerical solver follows the true refraction, the
+ * app switches to it for the first speed region.
+ */
+export function travelTime(medium: Medium, ax: number, ay: number, bx: number, by: number): number {
+  const length = Math.hypot(bx - ax, by - ay);
+  const slowness = 1 / Math.max(MIN_SPEED, medium.speed);
+  let time = length * slowness;
+  for (const region of medium.regions.slice(0, MAX_SPEED_REGIONS)) {
+    const [t0, t1] = clipSegmentToRegion(ax, ay, bx, by, region);
+    if (t1 > t0) time += (t1 - t0) * length * (1 / Math.max(MIN_SPEED, region.speed) - slowness);
+  }
+  return time;
+}
+
+// Travel time from a source to (x, y) on the path of one of its emitters
+const emitterTravelTime = (medium: Medium, source: WaveSource, emitter: Emitter, x: number, y: number) =>
+  emitter.via
+    ? travelTime(medium, source.x, source.y, emitter.via.x, emitter.via.y) + travelTime(medium, emitter.via.x, emitter.via.y, x, y)
+    : travelTime(medium, emitter.x, emitter.y, x, y);
+
+/**
+ * Phase delay k * r / omega and group delay r * dk/domega from an emitter
+ * to (x, y). Without dispersion both are the travel time. On deep water
+ * c_p = g / omega and c_g = c_p / 2, independent of the medium speed and
+ * the speed regions; the distance to a mirror image is the path length.
+ */
+export function emitterDelays(medium: Medium, source: WaveSource, emitter: Emitter, x: number, y: number): { phase: number, group: number } {
+  if (source.dispersion === Dispersion.DeepWater) {
+    const phase = source.frequency * Math.hypot(x - emitter.x, y - emitter.y) / GRAVITY;
+    return { phase, group: 2 * phase };
+  }
+  const travel = emitterTravelTime(medium, source, emitter, x, y);
+  return { phase: travel, group: travel };
+}
+
+/**
+ * Coefficients b_n of the sine series sum_n b_n * sin(n * theta) of a shape,
+ * n = 1..terms
+ */
+export function shapeCoefficients(shape: SourceShape): number[] {
+  const terms = Math.max(1, Math.min(MAX_HARMONICS, Math.round(shape.terms)));
+  return Array.from({ length: terms }, (_, i) => {
+    const n = i + 1;
+    switch (shape.kind) {
+      case WaveShape.Square: return n % 2 ? 4 / (Math.PI * n) : 0;
+      case WaveShape.Triangle: return n % 2 ? (n % 4 === 1 ? 1 : -1) * 8 / (Math.PI * Math.PI * n * n) : 0;
+      case WaveShape.Sawtooth: return (n % 2 ? 1 : -1) * 2 / (Math.PI * n);
+      case WaveShape.Custom: return shape.harmonics[i] ?? 0;
+      default: return n === 1 ? 1 : 0;
+    }
+  });
+}
+
+/**
+ * Replace every non-sine source by one sine source per non-zero harmonic
+ * (frequency n * omega, phase n * delta_phi). The field, the numerical
+ * solver and the arrow indicator all work on the expanded list, so they
+ * show the same waveform. A pulse has no carrier and is not expanded.
+ */
+export function expandHarmonics(sources: WaveSource[]): WaveSource[] {
+  return sources.flatMap(source => {
+    if (!source.shape || source.shape.kind === WaveShape.Sine || source.emission?.waveform === Waveform.Pulse) return [source];
+    const { shape, ...base } = source;
+    return shapeCoefficients(shape).flatMap((b, i) => b === 0 ? [] : [{
+      ...base,
+      id: `${source.id}~${i + 1}`,
+      amplitude: source.amplitude * Math.abs(b),
+      frequency: source.frequency * (i + 1),
+      phase: (i + 1) * source.phase + (b < 0 ? Math.PI : 0),
+      harmonic: i + 1,
+    }]);
+  });
+}
+
+// --- Moving sources ---
+
+export const isMoving = (source: WaveSource) =>
+  !!source.motion && source.motion.path !== MotionPath.Static && source.motion.speed > 0;
+
+/**
+ * Position of a source at time t, follows its motion path
+ */
+export function sourcePosition(source: WaveSource, t: number): { x: number, y: number } {
+  const m = source.motion;
+  if (!m || !isMoving(source)) return { x: source.x, y: source.y };
+  if (m.path === MotionPath.Linear) {
+    return { x: source.x + m.speed * t * Math.cos(m.direction), y: source.y + m.speed * t * Math.sin(m.direction) };
+  }
+  const angle = m.direction + m.speed / Math.max(m.radius, 1e-3) * t;
+  return { x: source.x + m.radius * Math.cos(angle), y: source.y + m.radius * Math.sin(angle) };
+}
+
+/**
+ * Velocity of a source at time t (m/s)
+ */
+export function sourceVelocity(source: WaveSource, t: number): { x: number, y: number } {
+  const m = source.motion;
+  if (!m || !isMoving(source)) return { x: 0, y: 0 };
+  if (m.path === MotionPath.Linear) return { x: m.speed * Math.cos(m.direction), y: m.speed * Math.sin(m.direction) };
+  const angle = m.direction + m.speed / Math.max(m.radius, 1e-3) * t;
+  return { x: -m.speed * Math.sin(angle), y: m.speed * Math.cos(angle) };
+}
+
+/**
+ * Delays s >= 0 (retarded time t - s) at which a moving source emitted the
+ * wave that reaches (x, y) at time t, i.e. |p - position(t - s)| = c * s.
+ * A straight path has one delay below c; above c there are two inside the
+ * Mach cone and none outside. Circular paths are solved with Newton's
+ * method and assume v < c.
+ */
+export function emissionDelays(source: WaveSource, c: number, x: number, y: number, t: number): number[] {
+  const m = source.motion;
+  const now = sourcePosition(source, t);
+  if (!m || !isMoving(source)) return [Math.hypot(x - now.x, y - now.y) / c];
+
+  if (m.path === MotionPath.Linear) {
+    // (c^2 - v^2) s^2 - 2 (d.u) s - |d|^2 = 0 with d from the current position
+    const u = sourceVelocity(source, t);
+    const dx = x - now.x;
+    const dy = y - now.y;
+    const a = c * c - m.speed * m.speed;
+    const b = dx * u.x + dy * u.y;
+    const dd = dx * dx + dy * dy;
+    if (Math.abs(a) < 1e-6) return b < 0 ? [-dd / (2 * b)] : [];
+    const disc = b * b + a * dd;
+    if (disc < 0) return [];
+    const root = Math.sqrt(disc);
+    if (a > 0) return [(b + root) / a];
+    return b < 0 ? [(b + root) / a, (b - root) / a] : [];
+  }
+
+  let s = Math.hypot(x - now.x, y - now.y) / c;
+  for (let k = 0; k < 8; k++) {
+    const e = sourcePosition(source, t - s);
+    const v = sourceVelocity(source, t - s);
+    const r = Math.max(Math.hypot(x - e.x, y - e.y), 1e-4);
+    const f = r - c * s;
+    const df = ((x - e.x) * v.x + (y - e.y) * v.y) / r - c;
+    s -= f / Math.min(df, -1e-3 * c);
+  }
+  return [Math.max(s, 0)];
+}
+
+/**
+ * Doppler factor c / (c - n.v) of the frequency heard at (x, y) for a wave
+ * emitted at (ex, ey) at time tEmit, n points from the emitter to the point.
+ * Negative on the late branch inside a Mach cone, where the waves arrive in
+ * reverse order; bounded near the cone itself.
+ */
+export function dopplerFactor(source: WaveSource, c: number, ex: number, ey: number, x: number, y: number, tEmit: number): number {
+  const r = Math.hypot(x - ex, y - ey);
+  if (r < 1e-6) return 1;
+  const v = sourceVelocity(source, tEmit);
+  const denom = c - ((x - ex) * v.x + (y - ey) * v.y) / r;
+  return c / (Math.sign(denom || 1) * Math.max(Math.abs(denom), DOPPLER_MIN_DENOMINATOR * c));
+}
+
+// Lower bound of |c - n.v| relative to c, keeps the Doppler factor finite
+export const DOPPLER_MIN_DENOMINATOR = 0.05;
+
+// --- Emission ---
+
+// Pulses and packets are centered PULSE_LEAD * sigma after their start and
+// end as far after the center, the envelope is below 1e-4 outside
+export const PULSE_LEAD = 3;
+
+// Emitted signal at an emission time, with the derivatives scaled like the
+// parameter modes (FieldSample)
+export interface SourceSignal {
+  value: number;     // s / s_max
+  rate: number;      // (ds/dt) / (omega * s_max)
+  curvature: number; // (d^2s/dt^2) / (omega^2 * s_max)
+  envelope: number;  // 0 while the source is silent
+}
+
+const SILENT: SourceSignal = { value: 0, rate: 0, curvature: 0, envelope: 0 };
+
+/**
+ * Signal of a source at emission time tau, phaseShift is added to
+ * delta_phi (reflections). A pulse has no carrier, a phase shift of PI
+ * flips its sign. With dispersion the envelope and the switch-on travel
+ * with the group velocity: groupTau is the emission time for them.
+ */
+export function sourceSignal(source: WaveSource, tau: number, phaseShift = 0, groupTau = tau): SourceSignal {
+  const omega = source.frequency;
+  const theta = omega * tau + source.phase + phaseShift;
+  const sinTheta = Math.sin(theta);
+  const cosTheta = Math.cos(theta);
+  const e = source.emission;
+  if (!e) return { value: sinTheta, rate: cosTheta, curvature: -sinTheta, envelope: 1 };
+  if (groupTau < e.start) return SILENT;
+
+  if (e.waveform === Waveform.Sine) {
+    if (groupTau > e.stop) return SILENT;
+    return { value: sinTheta, rate: cosTheta, curvature: -sinTheta, envelope: 1 };
+  }
+
+  // Gaussian envelope g and its derivatives g', g''
+  const sigma = Math.max(e.width, 1e-3);
+  const x = (groupTau - e.start) / sigma - PULSE_LEAD;
+  if (x > PULSE_LEAD) return SILENT;
+  const g = Math.exp(-x * x);
+  const dg = -2 * x / sigma * g;
+  const ddg = (4 * x * x - 2) / (sigma * sigma) * g;
+
+  if (e.waveform === Waveform.Pulse) {
+    const sign = Math.cos(phaseShift);
+    return { value: sign * g, rate: sign * dg / omega, curvature: sign * ddg / (omega * omega), envelope: g };
+  }
+  return {
+    value: g * sinTheta,
+    rate: dg / omega * sinTheta + g * cosTheta,
+    curvature: ddg / (omega * omega) * sinTheta + 2 * dg / omega * cosTheta - g * sinTheta,
+    envelope: g,
+  };
+}
+
+// Huygens sources sit this far behind the barrier line and the incoming
+// field is sampled this far in front of it, so that neither lies exactly on it
+const BARRIER_EPSILON = 0.01;
+
+/**
+ * Points where the Huygens sources of an opening sit, as distances along the barrier
+ */
+export function openingPoints(barrier: Barrier, opening: BarrierOpening): number[] {
+  const length = Math.hypot(barrier.x2 - barrier.x1, barrier.y2 - barrier.y1);
+  const start = Math.max(0, opening.offset - opening.width / 2);
+  const end = Math.min(length, opening.offset + opening.width / 2);
+  if (end <= start) return [];
+  const count = Math.min(MAX_HUYGENS_PER_OPENING, Math.max(1, Math.ceil((end - start) / HUYGENS_SPACING)));
+  const spacing = (end - start) / count;
+  return Array.from({ length: count }, (_, j) => start + (j + 0.5) * spacing);
+}
+
+/**
+ * Solid parts of a barrier between its openings, e.g. for drawing it
+ */
+export function barrierSolidParts(barrier: Barrier): Segment[] {
+  const length = Math.hypot(barrier.x2 - barrier.x1, barrier.y2 - barrier.y1);
+  if (length === 0) return [];
+  const ux = (barrier.x2 - barrier.x1) / length;
+  const uy = (barrier.y2 - barrier.y1) / length;
+  const gaps = barrier.openings
+    .map(o => [Math.max(0, o.offset - o.width / 2), Math.min(length, o.offset + o.width / 2)])
+    .filter(([a, b]) => b > a)
+    .sort((a, b) => a[0] - b[0]);
+
+  const parts: Segment[] = [];
+  let pos = 0;
+  for (const [a, b] of [...gaps, [length, length]]) {
+    if (a > pos) {
+      parts.push({ x1: barrier.x1 + ux * pos, y1: barrier.y1 + uy * pos, x2: barrier.x1 + ux * a, y2: barrier.y1 + uy * a });
+    }
+    pos = Math.max(pos, b);
+  }
+  return parts;
+}
+
+/**
+ * Generate the Huygens secondary sources of all barrier openings.
+ * Each point of an opening gets one secondary source per frequency and side
+ * of incidence, driven by the amplitude and phase of the incoming field of
+ * the visible (primary) sources there, walls included. Moving sources do
+ * not drive the openings. The strength per source is spacing / lambda, so
+ * that the row approximates a continuous line of Huygens wavelets; the
+ * amplitude of a secondary pulse is signed. Secondary sources only radiate
+ * to the side opposite to the incoming wave and do not drive other barriers.
+ * At most `limit` sources are returned.
+ */
+export function barrierSources(sources: WaveSource[], medium: Medium, limit: number): WaveSource[] {
+  const primaries = sources.filter(s => s.visible && s.barrier === undefined && !isMoving(s));
+  const result: WaveSource[] = [];
+
+  medium.barriers.slice(0, MAX_BARRIERS).forEach((barrier, index) => {
+    const length = Math.hypot(barrier.x2 - barrier.x1, barrier.y2 - barrier.y1);
+    if (length === 0) return;
+    const ux = (barrier.x2 - barrier.x1) / length;
+    const uy = (barrier.y2 - barrier.y1) / length;
+    // Unit normal pointing to the left side (positive orientation)
+    const nx = -uy;
+    const ny = ux;
+
+    barrier.openings.forEach((opening, o) => {
+      const points = openingPoints(barrier, opening);
+      const spacing = points.length > 1 ? points[1] - points[0] : Math.min(opening.width, length);
+
+      points.forEach((d, j) => {
+        const px = barrier.x1 + ux * d;
+        const py = barrier.y1 + uy * d;
+
+        // Incoming phasor per (frequency, side of incidence). Sources with a
+        // switch-on time or a pulse get their own drive per emitter, delayed
+        // by the travel time to the opening.
+        const drives = new Map<string, { frequency: number, side: number, re: number, im: number, dispersion?: Dispersion, emission?: SourceEmission }>();
+        for (const source of primaries) {
+          const side = Math.sign(cross(barrier.x1, barrier.y1, barrier.x2, barrier.y2, source.x, source.y));
+          if (side === 0) continue;
+          const sx = px + nx * side * BARRIER_EPSILON;
+          const sy = py + ny * side * BARRIER_EPSILON;
+
+          const key = `${source.frequency}:${side}:${source.dispersion ?? Dispersion.None}`;
+          sourceEmitters(source, sx, sy, medium).forEach((emitter, k) => {
+            const dist = Math.hypot(sx - emitter.x, sy - emitter.y);
+            const delays = emitterDelays(medium, source, emitter, sx, sy);
+            const theta = source.phase + emitter.phaseShift - source.frequency * delays.phase;
+            const amp = source.amplitude * emitter.gain * attenuation(medium, dist);
+            const e = source.emission;
+            if (e) {
+              // A pulse has no phase, the drive carries its sign
+              const pulse = e.waveform === Waveform.Pulse;
+              drives.set(`${source.id}:${k}:${side}`, {
+                frequency: source.frequency,
+                side,
+                re: pulse ? amp * Math.cos(emitter.phaseShift) : amp * Math.cos(theta),
+                im: pulse ? 0 : amp * Math.sin(theta),
+                dispersion: source.dispersion,
+                emission: { ...e, start: e.start + delays.group, stop: e.stop + delays.group },
+              });
+              return;
+            }
+            const drive = drives.get(key) ?? { frequency: source.frequency, side, re: 0, im: 0, dispersion: source.dispersion };
+            drive.re += amp * Math.cos(theta);
+            drive.im += amp * Math.sin(theta);
+            drives.set(key, drive);
+          });
+        }
+
+        drives.forEach(drive => {
+          const amplitude = Math.hypot(drive.re, drive.im);
+          if (amplitude < 1e-6) return;
+          const wavelength = 2 * Math.PI * localSpeed(medium, px, py) / drive.frequency;
+          const pulse = drive.emission?.waveform === Waveform.Pulse;
+          result.push({
+            id: `${barrier.id}-${o}-${j}-${result.length}`,
+            x: px - nx * drive.side * BARRIER_EPSILON,
+            y: py - ny * drive.side * BARRIER_EPSILON,
+            amplitude: (pulse ? drive.re : amplitude) * spacing / wavelength,
+            frequency: drive.frequency,
+            phase: pulse ? 0 : Math.atan2(drive.im, drive.re),
+            visible: true,
+            barrier: index,
+            side: -drive.side,
+            ...(drive.dispersion ? { dispersion: drive.dispersion } : {}),
+            ...(drive.emission ? { emission: drive.emission } : {}),
+          });
+        });
+      });
+    });
+  });
+
+  return result.slice(0, Math.max(0, limit));
+}
+
+/**
+ * Amplitude factor for a distance r from a source: spreading * absorption
+ */
+export function attenuation(medium: Medium, dist: number): number {
+  const rel = Math.max(dist, FALLOFF_REFERENCE_DISTANCE) / FALLOFF_REFERENCE_DISTANCE;
+  let spreading = 1;
+  if (medium.falloff === Falloff.Cylindrical) spreading = 1 / Math.sqrt(rel);
+  else if (medium.falloff === Falloff.Spherical) spreading = 1 / rel;
+  return spreading * Math.exp(-medium.absorption * dist);
+}
+
+/**
+ * d(ln attenuation)/dr, for the gradients of the field
+ */
+export function attenuationSlope(medium: Medium, dist: number): number {
+  let slope = -medium.absorption;
+  if (dist > FALLOFF_REFERENCE_DISTANCE) {
+    if (medium.falloff === Falloff.Cylindrical) slope -= 0.5 / dist;
+    else if (medium.falloff === Falloff.Spherical) slope -= 1 / dist;
+  }
+  return slope;
+}
+
+/**
+ * Elongation of the source itself (r = 0), used for the arrow indicator
+ */
+export function sourceElongation(source: WaveSource, t: number): number {
+  return expandHarmonics([source]).reduce((sum, h) => sum + h.amplitude * sourceSignal(h, t).value, 0);
+}
+
+/**
+ * Evaluate all parameter modes at once for a point (x, y) at time t.
+ * Hidden sources are ignored, like in the shader.
+ */
+export function sampleField(sources: WaveSource[], medium: Medium, x: number, y: number, t: number): FieldSample {
+  let elongation = 0;
+  let velocity = 0;
+  let acceleration = 0;
+  let realSum = 0;
+  let imagSum = 0;
+  const phases: number[] = [];
+  // Gradient of the phasor sum: d(realSum)/dx, d(realSum)/dy, d(imagSum)/dx, d(imagSum)/dy
+  const gradient = [0, 0, 0, 0];
+  // Phasor sums per frequency for the time averages
+  const groups: Array<{ omega: number, re: number, im: number }> = [];
+  let meanSquare = 0;
+  let energy = 0;
+
+  // Emitted wave a * e^(i theta) arriving from (ex, ey) with wave number k:
+  // grad = a * e^(i theta) * (d(ln a)/dr - i k) * r_hat
+  const addGradient = (re: number, im: number, slope: number, k: number, ex: number, ey: number) => {
+    const r = Math.max(Math.hypot(x - ex, y - ey), 0.01);
+    const dRe = re * slope + im * k;
+    const dIm = im * slope - re * k;
+    gradient[0] += dRe * (x - ex) / r;
+    gradient[1] += dRe * (y - ey) / r;
+    gradient[2] += dIm * (x - ex) / r;
+    gradient[3] += dIm * (y - ey) / r;
+  };
+
+  for (const source of sources) {
+    if (!source.visible) continue;
+
+    // Phasor of this source alone (without its amplitude), for the phase mode
+    let sourceRe = 0;
+    let sourceIm = 0;
+
+    if (isMoving(source)) {
+      // Direct wave only, emitted at the retarded positions. Walls do not
+      // mirror moving sources, speed regions and dispersion are ignored.
+      const c = Math.max(MIN_SPEED, medium.speed);
+      const blockers: Segment[] = [...medium.walls.slice(0, MAX_WALLS), ...medium.barriers.slice(0, MAX_BARRIERS)];
+      for (const delay of emissionDelays(source, c, x, y, t)) {
+        const e = sourcePosition(source, t - delay);
+        if (pathBlocked(e.x, e.y, x, y, blockers, -1)) continue;
+        const theta = source.frequency * (t - delay) + source.phase;
+        const signal = sourceSignal(source, t - delay);
+        const weight = attenuation(medium, c * delay);
+        const amp = source.amplitude * weight;
+        const doppler = dopplerFactor(source, c, e.x, e.y, x, y, t - delay);
+        elongation += amp * signal.value;
+        velocity += amp * doppler * signal.rate;
+        acceleration += amp * doppler * doppler * signal.curvature;
+        realSum += amp * signal.envelope * Math.cos(theta);
+        imagSum += amp * signal.envelope * Math.sin(theta);
+        sourceRe += weight * signal.envelope * Math.cos(theta);
+        sourceIm += weight * signal.envelope * Math.sin(theta);
+        addGradient(amp * signal.envelope * Math.cos(theta), amp * signal.envelope * Math.sin(theta),
+          attenuationSlope(medium, c * delay), source.frequency * doppler / c, e.x, e.y);
+      }
+    }
+
+    for (const emitter of sourceEmitters(source, x, y, medium)) {
+      const dist = Math.hypot(x - emitter.x, y - emitter.y);
+      // Emitted at tau = t - r/c, r/c summed over the speed regions; nothing
+      // arrives beyond r = c * (t - t_start)
+      const delays = emitterDelays(medium, source, emitter, x, y);
+      const tau = t - delays.phase;
+      const theta = source.frequency * tau + source.phase + emitter.phaseShift;
+      const signal = sourceSignal(source, tau, emitter.phaseShift, t - delays.group);
+      const cosTheta = signal.envelope * Math.cos(theta);
+      const sinTheta = signal.envelope * Math.sin(theta);
+      const weight = emitter.gain * attenuation(medium, dist);
+      const amp = source.amplitude * weight;
+
+      elongation += amp * signal.value;
+      velocity += amp * signal.rate;
+      acceleration += amp * signal.curvature;
+      realSum += amp * cosTheta;
+      imagSum += amp * sinTheta;
+      sourceRe += weight * cosTheta;
+      sourceIm += weight * sinTheta;
+      const waveNumber = source.dispersion === Dispersion.DeepWater
+        ? source.frequency * source.frequency / GRAVITY
+        : source.frequency / localSpeed(medium, x, y);
+      addGradient(amp * cosTheta, amp * sinTheta, attenuationSlope(medium, dist), waveNumber, emitter.x, emitter.y);
+    }
+
+    // Waves of different frequencies average out against each other
+    const re = source.amplitude * sourceRe;
+    const im = source.amplitude * sourceIm;
+    const group = groups.find(g => Math.abs(g.omega - source.frequency) < 1e-6);
+    if (group) {
+      group.re += re;
+      group.im += im;
+    } else if (groups.length < MAX_FREQUENCY_GROUPS) {
+      groups.push({ omega: source.frequency, re, im });
+    } else {
+      meanSquare += (re * re + im * im) / 2;
+      energy += source.frequency * source.frequency * (re * re + im * im) / 2;
+    }
+
+    // Sources that do not reach this point have no phase here, a non-sine
+    // source counts with its fundamental only
+    if ((source.harmonic ?? 1) === 1 && Math.hypot(sourceRe, sourceIm) > 1e-6) phases.push(Math.atan2(sourceIm, sourceRe));
+  }
+
+  for (const g of groups) {
+    meanSquare += (g.re * g.re + g.im * g.im) / 2;
+    energy += g.omega * g.omega * (g.re * g.re + g.im * g.im) / 2;
+  }
+
+  // grad(arg P) = (Re P grad(Im P) - Im P grad(Re P)) / |P|^2, k points the other way
+  const power = realSum * realSum + imagSum * imagSum;
+  const flat = power < 1e-8;
+
+  return {
+    elongation,
+    velocity,
+    acceleration,
+    amplitude: Math.hypot(realSum, imagSum),
+    phase: meanPairwisePhaseDifference(phases),
+    meanSquare,
+    energy,
+    waveVectorX: flat ? 0 : -(realSum * gradient[2] - imagSum * gradient[0]) / power,
+    waveVectorY: flat ? 0 : -(realSum * gradient[3] - imagSum * gradient[1]) / power,
+  };
+}
+
+/**
+ * Evaluate a single parameter mode for a point (x, y) at time t
+ */
+export function evaluateParam(mode: ParamMode, sources: WaveSource[], medium: Medium, x: number, y: number, t: number): number {
+  return paramValue(sampleField(sources, medium, x, y, t), mode);
+}
+
+/**
+ * Pick the value belonging to a parameter mode out of a sample
+ */
+export function paramValue(sample: FieldSample, mode: ParamMode): number {
+  switch (mode) {
+    case ParamMode.Elongation: return sample.elongation;
+    case ParamMode.Velocity: return sample.velocity;
+    case ParamMode.Acceleration: return sample.acceleration;
+    case ParamMode.Amplitude: return sample.amplitude;
+    case ParamMode.Phase: return sample.phase;
+    case ParamMode.Intensity: return sample.amplitude * sample.amplitude;
+    case ParamMode.Energy: return sample.energy;
+    case ParamMode.Rms: return Math.sqrt(sample.meanSquare);
+    case ParamMode.WaveVector: return localWavelength(sample);
+  }
+}
+
+/**
+ * Local wavelength 2 PI / |k| (m), 0 where the field is flat
+ */
+export function localWavelength(sample: FieldSample): number {
+  const k = Math.hypot(sample.waveVectorX, sample.waveVectorY);
+  return k > 1e-6 ? 2 * Math.PI / k : 0;
+}
+
+/**
+ * Mean pairwise phase difference using the circular mean, result in [-PI, PI].
+ * Runs in O(n) like the shader: sum_{i<j} e^(i(theta_i - theta_j)) is
+ * accumulated as sum_j prefix_j * conj(z_j) with prefix_j = sum_{i<j} z_i.
+ */
+export function meanPairwisePhaseDifference(phases: number[]): number {
+  if (phases.length < 2) return 0;
+
+  let prefixRe = 0;
+  let prefixIm = 0;
+  let sumCos = 0;
+  let sumSin = 0;
+
+  for (const theta of phases) {
+    const zRe = Math.cos(theta);
+    const zIm = Math.sin(theta);
+    sumCos += prefixRe * zRe + prefixIm * zIm;
+    sumSin += prefixIm * zRe - prefixRe * zIm;
+    prefixRe += zRe;
+    prefixIm += zIm;
+  }
+
+  return Math.atan2(sumSin, sumCos);
+}
+
+// Straight line segment in simulation coordinates
+export interface Segment {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+export interface ProfilePoint {
+  d: number; // distance from the segment start
+  x: number;
+  y: number;
+  value: number;
+}
+
+/**
+ * Sample a parameter mode at `count` evenly spaced points along a segment
+ */
+export function sampleProfile(mode: ParamMode, sampler: FieldSampler, segment: Segment, t: number, count: number): ProfilePoint[] {
+  const length = Math.hypot(segment.x2 - segment.x1, segment.y2 - segment.y1);
+  const points: ProfilePoint[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const f = count > 1 ? i / (count - 1) : 0;
+    const x = segment.x1 + (segment.x2 - segment.x1) * f;
+    const y = segment.y1 + (segment.y2 - segment.y1) * f;
+    points.push({ d: length * f, x, y, value: paramValue(sampler(x, y, t), mode) });
+  }
+
+  return points;
+}
+
+export interface Extremum {
+  index: number;
+  kind: 'max' | 'min';
+}
+
+/**
+ * Find the interior local maxima and minima of a sampled curve.
+ * Plateaus count once, at their first sample. Curves whose total range is
+ * below `tolerance` are considered flat and have no extrema.
+ */
+export function findExtrema(values: number[], tolerance = 1e-6): Extremum[] {
+  const extrema: Extremum[] = [];
+  if (values.length < 3) return extrema;
+  if (Math.max(...values) - Math.min(...values) < tolerance) return extrema;
+
+  for (let i = 1; i < values.length - 1; i++) {
+    const prev = values[i - 1];
+    const curr = values[i];
+    // Skip ahead over plateaus to the next differing value
+    let j = i + 1;
+    while (j < values.length - 1 && values[j] === curr) j++;
+    const next = values[j];
+
+    if (curr > prev && curr > next) extrema.push({ index: i, kind: 'max' });
+    else if (curr < prev && curr < next) extrema.push({ index: i, kind: 'min' });
+  }
+
+  return extrema;
+}
@@ -0,0 +1,119 @@
+// Minimal WebM (Matroska) writer for one video track.
+//
+// Takes the encoded chunks of a VideoEncoder and writes them as
+// SimpleBlocks. A new cluster starts at every keyframe, so players can seek
+// to any cluster. Sizes are known when finishing, the file is written in
+// one go and needs no seek head or cues for playback.
+
+export type WebmCodec = 'V_VP8' | 'V_VP9';
+
+export interface WebmMuxer {
+  addChunk: (data: Uint8Array, timestampUs: number, durationUs: number, keyframe: boolean) => void;
+  finish: () => Blob;
+}
+
+type Element = [id: number, payload: Uint8Array];
+
+const idBytes = (id: number): number[] => {
+  const bytes: number[] = [];
+  for (let v = id; v > 0; v = Math.floor(v / 256)) bytes.unshift(v & 0xff);
+  return bytes;
+};
+
+/**
+ * EBML variable-length size, always 8 bytes wide
+ */
+const sizeBytes = (size: number): number[] => {
+  const bytes = [0x01];
+  for (let shift = 6; shift >= 0; shift--) bytes.push(Math.floor(size / 2 ** (shift * 8)) & 0xff);
+  return bytes;
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let o = 0;
+  for (const p of parts) {
+    out.set(p, o);
+    o += p.length;
+  }
+  return out;
+};
+
+const element = ([id, payload]: Element): Uint8Array =>
+  concat([new Uint8Array([...idBytes(id), ...sizeBytes(payload.length)]), payload]);
+
+const master = (id: number, children: Element[]): Element => [id, concat(children.map(element))];
+
+const uint = (id: number, value: number): Element => {
+  const bytes: number[] = [];
+  for (let v = value; v > 0 || bytes.length === 0; v = Math.floor(v / 256)) bytes.unshift(v & 0xff);
+  return [id, new Uint8Array(bytes)];
+};
+
+const float = (id: number, value: number): Element => {
+  const payload = new Uint8Array(8);
+  new DataView(payload.buffer).setFloat64(0, value);
+  return [id, payload];
+};
+
+const text = (id: number, value: string): Element => [id, new TextEncoder().encode(value)];
+
+/**
+ * Create a muxer for a video track of width x height pixels
+ */
+export function createWebmMuxer(width: number, height: number, codec: WebmCodec): WebmMuxer {
+  const clusters: Element[] = [];
+  let blocks: Element[] = [];
+  let clusterTime = 0;
+  let duration = 0;
+
+  const closeCluster = () => {
+    if (blocks.length > 0) clusters.push(master(0x1f43b675, [uint(0xe7, clusterTime), ...blocks]));
+    blocks = [];
+  };
+
+  const addChunk = (data: Uint8Array, timestampUs: number, durationUs: number, keyframe: boolean) => {
+    const time = Math.round(timestampUs / 1000);
+    // Block times are 16-bit offsets from the cluster time
+    if (keyframe || blocks.length === 0 || time - clusterTime > 30000) {
+      closeCluster();
+      clusterTime = time;
+    }
+    const offset = time - clusterTime;
+    const header = new Uint8Array([0x81, (offset >> 8) & 0xff, offset & 0xff, keyframe ? 0x80 : 0x00]);
+    blocks.push([0xa3, concat([header, data])]);
+    duration = Math.max(duration, (timestampUs + durationUs) / 1000);
+  };
+
+  const finish = () => {
+    closeCluster();
+    const header = master(0x1a45dfa3, [
+      uint(0x4286, 1), // EBMLVersion
+      uint(0x42f7, 1), // EBMLReadVersion
+      uint(0x42f2, 4), // EBMLMaxIDLength
+      uint(0x42f3, 8), // EBMLMaxSizeLength
+      text(0x4282, 'webm'), // DocType
+      uint(0x4287, 2), // DocTypeVersion
+      uint(0x4285, 2), // DocTypeReadVersion
+    ]);
+    const info = master(0x1549a966, [
+      uint(0x2ad7b1, 1000000), // TimecodeScale: 1 ms
+      float(0x4489, duration),
+      text(0x4d80, 'Wellenfeld Simulation'), // MuxingApp
+      text(0x5741, 'Wellenfeld Simulation'), // WritingApp
+    ]);
+    const tracks = master(0x1654ae6b, [
+      master(0xae, [
+        uint(0xd7, 1), // TrackNumber
+        uint(0x73c5, 1), // TrackUID
+        uint(0x83, 1), // TrackType: video
+        text(0x86, codec),
+        master(0xe0, [uint(0xb0, width), uint(0xba, height)]),
+      ]),
+    ]);
+    const segment = master(0x18538067, [info, tracks, ...clusters]);
+    return new Blob([element(header), element(segment)], { type: 'video/webm' });
+  };
+
+  return { addChunk, finish };
+}